@@ -31,8 +31,12 @@ import {
     OnFeederCallbackType,
     OnNextVoltageCallbackType,
     OnMoveNodeCallbackType,
+    OnMoveNodesCallbackType,
     OnMoveTextNodeCallbackType,
+    OnContextMenuCallbackType,
+    OnMoveEdgeCallbackType,
     OnSelectNodeCallbackType,
+    OnSelectEdgeCallbackType,
     OnToggleNadHoverCallbackType,
 } from '../../../src';
 
@@ -54,7 +58,13 @@ export const addNadToDemo = () => {
                 true,
                 false,
                 null,
-                handleToggleNadHover
+                handleToggleNadHover,
+                {
+                    onMoveNodesCallback: handleNodesMove,
+                    onContextMenuCallback: handleContextMenu,
+                    onSelectEdgeCallback: handleEdgeSelect,
+                    onMoveEdgeCallback: handleEdgeMove,
+                }
             );
 
             document
@@ -80,7 +90,13 @@ export const addNadToDemo = () => {
                 false,
                 false,
                 null,
-                handleToggleNadHover
+                handleToggleNadHover,
+                {
+                    onMoveNodesCallback: handleNodesMove,
+                    onContextMenuCallback: handleContextMenu,
+                    onSelectEdgeCallback: handleEdgeSelect,
+                    onMoveEdgeCallback: handleEdgeMove,
+                }
             );
 
             document
@@ -106,7 +122,13 @@ export const addNadToDemo = () => {
                 true,
                 false,
                 null,
-                handleToggleNadHover
+                handleToggleNadHover,
+                {
+                    onMoveNodesCallback: handleNodesMove,
+                    onContextMenuCallback: handleContextMenu,
+                    onSelectEdgeCallback: handleEdgeSelect,
+                    onMoveEdgeCallback: handleEdgeMove,
+                }
             );
 
             document
@@ -132,7 +154,13 @@ export const addNadToDemo = () => {
                 true,
                 false,
                 null,
-                handleToggleNadHover
+                handleToggleNadHover,
+                {
+                    onMoveNodesCallback: handleNodesMove,
+                    onContextMenuCallback: handleContextMenu,
+                    onSelectEdgeCallback: handleEdgeSelect,
+                    onMoveEdgeCallback: handleEdgeMove,
+                }
             );
 
             document
@@ -158,7 +186,13 @@ export const addNadToDemo = () => {
                 true,
                 false,
                 null,
-                handleToggleNadHover
+                handleToggleNadHover,
+                {
+                    onMoveNodesCallback: handleNodesMove,
+                    onContextMenuCallback: handleContextMenu,
+                    onSelectEdgeCallback: handleEdgeSelect,
+                    onMoveEdgeCallback: handleEdgeMove,
+                }
             );
 
             document
@@ -184,7 +218,13 @@ export const addNadToDemo = () => {
                 true,
                 false,
                 null,
-                handleToggleNadHover
+                handleToggleNadHover,
+                {
+                    onMoveNodesCallback: handleNodesMove,
+                    onContextMenuCallback: handleContextMenu,
+                    onSelectEdgeCallback: handleEdgeSelect,
+                    onMoveEdgeCallback: handleEdgeMove,
+                }
             );
 
             document
@@ -210,7 +250,13 @@ export const addNadToDemo = () => {
                 true,
                 true,
                 null,
-                handleToggleNadHover
+                handleToggleNadHover,
+                {
+                    onMoveNodesCallback: handleNodesMove,
+                    onContextMenuCallback: handleContextMenu,
+                    onSelectEdgeCallback: handleEdgeSelect,
+                    onMoveEdgeCallback: handleEdgeMove,
+                }
             );
 
             document
@@ -355,6 +401,50 @@ const handleNodeMove: OnMoveNodeCallbackType = (equipmentId, nodeId, x, y, xOrig
     console.log(msg);
 };
 
+const handleNodesMove: OnMoveNodesCallbackType = (nodeMoves) => {
+    const msg = 'Nodes ' + nodeMoves.map((nodeMove) => nodeMove.nodeId).join(', ') + ' moved';
+    console.log(msg);
+};
+
+const handleContextMenu: OnContextMenuCallbackType = (
+    kind,
+    equipmentId,
+    svgId,
+    equipmentType,
+    screenX,
+    screenY,
+    voltageLevelId
+) => {
+    const msg =
+        'Context menu on ' +
+        kind +
+        ': ' +
+        equipmentId +
+        (voltageLevelId != null ? ', voltage level: ' + voltageLevelId : '') +
+        ', equipment type: ' +
+        equipmentType +
+        ', svgId: ' +
+        svgId +
+        ', x: ' +
+        screenX +
+        ', y: ' +
+        screenY;
+    console.log(msg);
+};
+
+const handleEdgeMove: OnMoveEdgeCallbackType = (equipmentId, edgeId, bendPoints, bendPointsOrig) => {
+    const msg =
+        'Edge ' +
+        edgeId +
+        ' equipment ' +
+        equipmentId +
+        ' bend points changed from ' +
+        JSON.stringify(bendPointsOrig) +
+        ' to ' +
+        JSON.stringify(bendPoints);
+    console.log(msg);
+};
+
 const handleTextNodeMove: OnMoveTextNodeCallbackType = (
     equipmentId,
     nodeId,
@@ -400,13 +490,25 @@ const handleNodeSelect: OnSelectNodeCallbackType = (equipmentId, nodeId) => {
     console.log(msg);
 };
 
-const handleToggleNadHover: OnToggleNadHoverCallbackType = (hovered, mousePosition, equipmentId, equipmentType) => {
+const handleEdgeSelect: OnSelectEdgeCallbackType = (edge, equipmentType) => {
+    const msg = 'Edge ' + edge.svgId + ' equipment ' + edge.equipmentId + ' type ' + equipmentType + ' selected';
+    console.log(msg);
+};
+
+const handleToggleNadHover: OnToggleNadHoverCallbackType = (
+    hovered,
+    mousePosition,
+    equipmentId,
+    equipmentType,
+    busNode
+) => {
     if (hovered) {
         const msg =
             'Hovers on equipment: ' +
             equipmentId +
             ', equipmentType: ' +
             equipmentType +
+            (busNode != null ? ', bus: ' + busNode.equipmentId : '') +
             ', mousePosition : x =' +
             mousePosition?.x +
             ', y=' +
@@ -0,0 +1,31 @@
+/**
+ * Copyright (c) 2024, RTE (http://www.rte-france.com)
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ * SPDX-License-Identifier: MPL-2.0
+ */
+
+import { getLoadingZone, LOADING_ZONE_CSS_RULES, LoadingZone } from './branch-loading';
+
+test('getLoadingZone', () => {
+    expect(getLoadingZone({ equipmentId: 'L1', loading: 50 }, 80)).toBe(LoadingZone.SAFE);
+    expect(getLoadingZone({ equipmentId: 'L1', loading: 85 }, 80)).toBe(LoadingZone.WARNING);
+    expect(getLoadingZone({ equipmentId: 'L1', loading: 120 }, 80)).toBe(LoadingZone.OVERLOAD);
+    expect(getLoadingZone({ equipmentId: 'L1', i1: 100, limit1: 1000, i2: 1100, limit2: 1000 }, 80)).toBe(
+        LoadingZone.OVERLOAD
+    );
+    expect(getLoadingZone({ equipmentId: '3WT', i1: 100, limit1: 1000, i3: 90, limit3: 100 }, 80)).toBe(
+        LoadingZone.WARNING
+    );
+    expect(getLoadingZone({ equipmentId: 'L1' }, 80)).toBe(LoadingZone.UNKNOWN);
+});
+
+test('LOADING_ZONE_CSS_RULES', () => {
+    expect(LOADING_ZONE_CSS_RULES).toContain(
+        '.nad-branch-edges .nad-loading-overload .nad-edge-path, .nad-branch-edges .nad-loading-overload .nad-winding, ' +
+            '.nad-3wt-edges .nad-loading-overload .nad-edge-path, .nad-3wt-edges .nad-loading-overload .nad-winding ' +
+            '{stroke: rgb(255, 0, 0);}'
+    );
+    expect(LOADING_ZONE_CSS_RULES.split('\n').length).toBe(5);
+});
@@ -0,0 +1,70 @@
+/**
+ * Copyright (c) 2024, RTE (http://www.rte-france.com)
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ * SPDX-License-Identifier: MPL-2.0
+ */
+
+import {
+    getLineLoadingZoneOfSide,
+    LINE_LOADING_ZONE_COLORS,
+    LineLoadingZone as LoadingZone,
+} from '../../utils/line-flow';
+
+// same zones as the line loading zones of the network map
+export { LoadingZone };
+
+// loading of a branch or a three windings transformer: either a loading percentage,
+// or the current and the permanent limit of each side
+export interface BranchLoading {
+    equipmentId: string;
+    loading?: number;
+    i1?: number;
+    limit1?: number;
+    i2?: number;
+    limit2?: number;
+    i3?: number;
+    limit3?: number;
+}
+
+export const LINE_FLOW_ALERT_THRESHOLD_DEFAULT = 100;
+
+export const LOADING_ZONE_CLASSES: Record<LoadingZone, string> = {
+    [LoadingZone.UNKNOWN]: 'nad-loading-unknown',
+    [LoadingZone.SAFE]: 'nad-loading-safe',
+    [LoadingZone.WARNING]: 'nad-loading-warning',
+    [LoadingZone.OVERLOAD]: 'nad-loading-overload',
+};
+
+// the rules are more specific than the edge rules of the diagram stylesheet, in order to override the voltage colors
+export const LOADING_ZONE_CSS_RULES = Object.values(LoadingZone)
+    .filter((zone): zone is LoadingZone => typeof zone === 'number')
+    .map((zone) => {
+        const zoneClass = LOADING_ZONE_CLASSES[zone];
+        return (
+            ['.nad-branch-edges', '.nad-3wt-edges']
+                .flatMap((edges) => [
+                    edges + ' .' + zoneClass + ' .nad-edge-path',
+                    edges + ' .' + zoneClass + ' .nad-winding',
+                ])
+                .join(', ') +
+            ' {stroke: rgb(' +
+            LINE_LOADING_ZONE_COLORS[zone].join(', ') +
+            ');}\n'
+        );
+    })
+    .join('');
+
+// get the loading zone of a branch, as the zone of the lines of the network map: the zone of the loading percentage
+// if provided, else the zone of the most loaded side
+export function getLoadingZone(branchLoading: BranchLoading, lineFlowAlertThreshold: number): LoadingZone {
+    if (branchLoading.loading !== undefined) {
+        return getLineLoadingZoneOfSide(100, branchLoading.loading, lineFlowAlertThreshold);
+    }
+    return Math.max(
+        getLineLoadingZoneOfSide(branchLoading.limit1, branchLoading.i1, lineFlowAlertThreshold),
+        getLineLoadingZoneOfSide(branchLoading.limit2, branchLoading.i2, lineFlowAlertThreshold),
+        getLineLoadingZoneOfSide(branchLoading.limit3, branchLoading.i3, lineFlowAlertThreshold)
+    );
+}
@@ -0,0 +1,66 @@
+/**
+ * Copyright (c) 2024, RTE (http://www.rte-france.com)
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ * SPDX-License-Identifier: MPL-2.0
+ */
+
+import {
+    DeltaClass,
+    formatDelta,
+    getActivePowerDeltas,
+    getFlowChangeClass,
+    getMissingNodes,
+} from './diagram-comparison';
+import { DiagramMetadata } from './diagram-metadata';
+
+const metadata = {
+    nodes: [
+        { svgId: '0', equipmentId: 'VLGEN', x: 0, y: 0 },
+        { svgId: '2', equipmentId: 'VLHV1', x: 100, y: 0 },
+    ],
+    edges: [{ svgId: '8', equipmentId: 'NGEN_NHV1', node1: '0', node2: '2', type: 'TwoWtEdge' }],
+} as DiagramMetadata;
+
+test('getActivePowerDeltas', () => {
+    const deltas = getActivePowerDeltas(
+        [
+            { equipmentId: 'NGEN_NHV1', side: 1, p: 607 },
+            { equipmentId: 'NGEN_NHV1', side: 2, p: -605 },
+            { equipmentId: 'NHV1_NHV2_1', side: 1, p: 302 },
+        ],
+        [
+            { equipmentId: 'NGEN_NHV1', side: 1, p: 500 },
+            { equipmentId: 'NGEN_NHV1', side: 2, p: -499 },
+        ]
+    );
+    expect(deltas).toEqual([
+        { equipmentId: 'NGEN_NHV1', side: 1, p: 607, pReference: 500 },
+        { equipmentId: 'NGEN_NHV1', side: 2, p: -605, pReference: -499 },
+    ]);
+    expect(getFlowChangeClass(deltas)).toBe(DeltaClass.INCREASE);
+    expect(getFlowChangeClass([{ equipmentId: 'L', side: 1, p: -10, pReference: -20 }])).toBe(DeltaClass.DECREASE);
+    expect(getFlowChangeClass([{ equipmentId: 'L', side: 1, p: -20, pReference: 20 }])).toBe(DeltaClass.REVERSAL);
+    expect(
+        getFlowChangeClass([
+            { equipmentId: 'L', side: 1, p: 20, pReference: 10 },
+            { equipmentId: 'L', side: 2, p: -20, pReference: 10 },
+        ])
+    ).toBe(DeltaClass.REVERSAL);
+    expect(getFlowChangeClass([{ equipmentId: 'L', side: 1, p: 20, pReference: 20 }])).toBeNull();
+    expect(getFlowChangeClass([{ equipmentId: 'L', side: 1, p: 0, pReference: -20 }])).toBe(DeltaClass.DECREASE);
+    expect(getFlowChangeClass([])).toBeNull();
+});
+
+test('formatDelta', () => {
+    expect(formatDelta(107.2)).toBe('+107');
+    expect(formatDelta(-12.6)).toBe('-13');
+    expect(formatDelta(-0.2)).toBe('0');
+});
+
+test('getMissingNodes', () => {
+    const otherNodes = [{ svgId: '5', equipmentId: 'VLGEN', x: 0, y: 0 }];
+    expect(getMissingNodes(metadata.nodes, otherNodes)).toEqual(['VLHV1']);
+    expect(getMissingNodes(otherNodes, metadata.nodes)).toEqual([]);
+});
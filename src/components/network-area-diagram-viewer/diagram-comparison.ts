@@ -0,0 +1,101 @@
+/**
+ * Copyright (c) 2024, RTE (http://www.rte-france.com)
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ * SPDX-License-Identifier: MPL-2.0
+ */
+
+import { NodeMetadata } from './diagram-metadata';
+import { EdgeValues, formatValue } from './diagram-values';
+
+// active power of an edge side, in the compared state and in the reference state
+export interface EdgeDelta {
+    equipmentId: string;
+    side: number;
+    p: number;
+    pReference: number;
+}
+
+export enum DeltaClass {
+    INCREASE = 'nad-delta-increase',
+    DECREASE = 'nad-delta-decrease',
+    REVERSAL = 'nad-delta-reversal', // the active power of a side changing direction
+    NEW_NODE = 'nad-delta-new-node',
+    LABEL = 'nad-delta-label',
+}
+
+const DELTA_PRECISION = 0;
+
+export const DELTA_CSS_RULES =
+    '.' +
+    DeltaClass.INCREASE +
+    ' .nad-edge-path {stroke: #d32f2f;}\n' +
+    '.' +
+    DeltaClass.DECREASE +
+    ' .nad-edge-path {stroke: #388e3c;}\n' +
+    '.' +
+    DeltaClass.INCREASE +
+    ' .' +
+    DeltaClass.LABEL +
+    ' {fill: #d32f2f;}\n' +
+    '.' +
+    DeltaClass.DECREASE +
+    ' .' +
+    DeltaClass.LABEL +
+    ' {fill: #388e3c;}\n' +
+    '.' +
+    DeltaClass.REVERSAL +
+    ' .nad-edge-path {stroke: #f57c00;}\n' +
+    '.' +
+    DeltaClass.REVERSAL +
+    ' .' +
+    DeltaClass.LABEL +
+    ' {fill: #f57c00;}\n' +
+    '.' +
+    DeltaClass.NEW_NODE +
+    ' {filter: drop-shadow(0 0 8px #8e24aa);}\n';
+
+// get the active power deltas of the edge sides in both states
+export function getActivePowerDeltas(activePowers: EdgeValues[], referenceActivePowers: EdgeValues[]): EdgeDelta[] {
+    const referenceValues: Map<string, number> = new Map<string, number>();
+    referenceActivePowers.forEach((values) => {
+        if (values.p !== undefined) {
+            referenceValues.set(values.equipmentId + '.' + values.side, values.p);
+        }
+    });
+    const deltas: EdgeDelta[] = [];
+    activePowers.forEach((values) => {
+        const pReference = referenceValues.get(values.equipmentId + '.' + values.side);
+        if (values.p !== undefined && pReference !== undefined) {
+            deltas.push({ equipmentId: values.equipmentId, side: values.side, p: values.p, pReference: pReference });
+        }
+    });
+    return deltas;
+}
+
+// get the class of the flow change of an equipment: a reversal if the active power of a side changes direction,
+// otherwise from the largest active power of its sides
+export function getFlowChangeClass(deltas: EdgeDelta[]): DeltaClass | null {
+    if (deltas.some((delta) => delta.p * delta.pReference < 0)) {
+        return DeltaClass.REVERSAL;
+    }
+    const maxP = Math.max(...deltas.map((delta) => Math.abs(delta.p)));
+    const maxPReference = Math.max(...deltas.map((delta) => Math.abs(delta.pReference)));
+    if (deltas.length == 0 || maxP == maxPReference) {
+        return null;
+    }
+    return maxP > maxPReference ? DeltaClass.INCREASE : DeltaClass.DECREASE;
+}
+
+// format a delta, with its sign
+export function formatDelta(delta: number): string {
+    const roundedDelta = Number(delta.toFixed(DELTA_PRECISION)) || 0; // no negative zero
+    return (roundedDelta > 0 ? '+' : '') + formatValue(roundedDelta, DELTA_PRECISION);
+}
+
+// get the equipment ids of the nodes not in the other nodes
+export function getMissingNodes(nodes: NodeMetadata[], otherNodes: NodeMetadata[]): string[] {
+    const otherEquipmentIds = new Set(otherNodes.map((node) => node.equipmentId));
+    return nodes.filter((node) => !otherEquipmentIds.has(node.equipmentId)).map((node) => node.equipmentId);
+}
@@ -0,0 +1,44 @@
+/**
+ * Copyright (c) 2024, RTE (http://www.rte-france.com)
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ * SPDX-License-Identifier: MPL-2.0
+ */
+
+import { SVG } from '@svgdotjs/svg.js';
+import { getStandaloneSvg } from './diagram-export';
+
+test('getStandaloneSvg', () => {
+    const svgContent =
+        '<svg viewBox="0 0 100 100" style="overflow: visible">' +
+        '<style>.nad-edge-infos {display: block;}</style>' +
+        '<g class="nad-vl-nodes"><g id="0" class="nad-selected-node" transform="translate(10,20)"></g></g>' +
+        '<g><circle class="nad-bend-point"/></g></svg>';
+    const container = document.createElement('div');
+    document.body.appendChild(container);
+    const svg = SVG().addTo(container).svg(svgContent).node.firstElementChild as SVGSVGElement;
+
+    const standaloneSvg = getStandaloneSvg(
+        svg,
+        { x: -50, y: -60, width: 400, height: 300 },
+        800,
+        600,
+        ['nad-selected-node'],
+        ['nad-bend-point']
+    );
+    const exportedSvg = new DOMParser().parseFromString(standaloneSvg, 'image/svg+xml').documentElement;
+    expect(exportedSvg.getAttribute('viewBox')).toBe('-50 -60 400 300');
+    expect(exportedSvg.getAttribute('width')).toBe('800');
+    expect(exportedSvg.getAttribute('height')).toBe('600');
+    expect(exportedSvg.getAttribute('style')).toBeNull();
+    expect(exportedSvg.querySelector('style')?.textContent).toBe('.nad-edge-infos {display: block;}');
+    expect(exportedSvg.querySelector('[id="0"]')?.getAttribute('class')).toBe('');
+    expect(exportedSvg.querySelector('[id="0"]')?.getAttribute('transform')).toBe('translate(10,20)');
+    expect(exportedSvg.querySelector('.nad-bend-point')).toBeNull();
+    // the displayed diagram is left unchanged
+    expect(svg.querySelector('[id="0"]')?.classList.contains('nad-selected-node')).toBe(true);
+    expect(svg.querySelector('.nad-bend-point')).not.toBeNull();
+    expect(svg.getAttribute('viewBox')).toBe('0 0 100 100');
+    container.remove();
+});
@@ -0,0 +1,80 @@
+/**
+ * Copyright (c) 2024, RTE (http://www.rte-france.com)
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ * SPDX-License-Identifier: MPL-2.0
+ */
+
+import { ViewBoxLike } from '@svgdotjs/svg.js';
+
+export type ExportImageOptions = {
+    format: 'svg' | 'png';
+    scope?: 'viewport' | 'full'; // the displayed area, or the whole diagram
+    scale?: number; // size of the image w.r.t. the displayed size for the viewport, or the diagram size for the whole diagram
+};
+
+// get a standalone copy of a diagram SVG, displaying the viewbox with the given size, without the given classes
+// and without the elements with the given element classes, e.g. the overlays of the viewer
+// the stylesheets are serialized with their current rules, including the dynamic css rules updated by the zoom
+export function getStandaloneSvg(
+    svg: SVGSVGElement,
+    viewBox: ViewBoxLike,
+    width: number,
+    height: number,
+    removedClasses: string[],
+    removedElementClasses: string[] = []
+): string {
+    const svgCopy = svg.cloneNode(true) as SVGSVGElement;
+    const styles = svg.querySelectorAll('style');
+    svgCopy.querySelectorAll('style').forEach((styleCopy, index) => {
+        const cssRules = styles.item(index)?.sheet?.cssRules;
+        if (cssRules != null && cssRules.length > 0) {
+            styleCopy.textContent = Array.from(cssRules)
+                .map((cssRule) => cssRule.cssText)
+                .join('\n');
+        }
+    });
+    removedElementClasses.forEach((removedElementClass) => {
+        svgCopy.querySelectorAll('.' + removedElementClass).forEach((element) => element.remove());
+    });
+    removedClasses.forEach((removedClass) => {
+        svgCopy.querySelectorAll('.' + removedClass).forEach((element) => element.classList.remove(removedClass));
+    });
+    svgCopy.removeAttribute('style');
+    svgCopy.setAttribute('viewBox', viewBox.x + ' ' + viewBox.y + ' ' + viewBox.width + ' ' + viewBox.height);
+    svgCopy.setAttribute('width', String(width));
+    svgCopy.setAttribute('height', String(height));
+    return new XMLSerializer().serializeToString(svgCopy);
+}
+
+// rasterize a standalone SVG to a PNG image, through an offscreen canvas
+export function rasterizeSvg(svgContent: string, width: number, height: number): Promise<Blob> {
+    return new Promise<Blob>((resolve, reject) => {
+        const image = new Image(width, height);
+        image.onload = () => {
+            const canvas =
+                typeof OffscreenCanvas !== 'undefined'
+                    ? new OffscreenCanvas(width, height)
+                    : Object.assign(document.createElement('canvas'), { width: width, height: height });
+            const context = canvas.getContext('2d') as
+                | CanvasRenderingContext2D
+                | OffscreenCanvasRenderingContext2D
+                | null;
+            if (context == null) {
+                reject(new Error('Cannot get a 2d context to rasterize the diagram'));
+                return;
+            }
+            context.drawImage(image, 0, 0, width, height);
+            if (canvas instanceof HTMLCanvasElement) {
+                canvas.toBlob((blob) =>
+                    blob != null ? resolve(blob) : reject(new Error('Failed to rasterize the diagram'))
+                );
+            } else {
+                canvas.convertToBlob({ type: 'image/png' }).then(resolve, reject);
+            }
+        };
+        image.onerror = () => reject(new Error('Failed to load the diagram image'));
+        image.src = 'data:image/svg+xml;charset=utf-8,' + encodeURIComponent(svgContent);
+    });
+}
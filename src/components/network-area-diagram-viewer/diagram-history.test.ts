@@ -0,0 +1,60 @@
+/**
+ * Copyright (c) 2024, RTE (http://www.rte-france.com)
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ * SPDX-License-Identifier: MPL-2.0
+ */
+
+import { DiagramHistory, HistoryCommand, HistoryCommandType } from './diagram-history';
+
+function getNodeMoveCommand(nodeId: string): HistoryCommand {
+    return {
+        type: HistoryCommandType.NODE_MOVE,
+        nodeId: nodeId,
+        move: { xOrig: 0, yOrig: 0, xNew: 10, yNew: 10 },
+    };
+}
+
+test('undo and redo', () => {
+    const history = new DiagramHistory();
+    expect(history.canUndo()).toBe(false);
+    expect(history.canRedo()).toBe(false);
+    expect(history.undo()).toBeUndefined();
+
+    history.push(getNodeMoveCommand('0'));
+    history.push(getNodeMoveCommand('2'));
+    expect(history.canUndo()).toBe(true);
+    expect(history.canRedo()).toBe(false);
+
+    let command = history.undo();
+    expect(command?.type == HistoryCommandType.NODE_MOVE && command.nodeId).toBe('2');
+    expect(history.canRedo()).toBe(true);
+    command = history.redo();
+    expect(command?.type == HistoryCommandType.NODE_MOVE && command.nodeId).toBe('2');
+    expect(history.canRedo()).toBe(false);
+});
+
+test('push clears redo stack', () => {
+    const history = new DiagramHistory();
+    history.push(getNodeMoveCommand('0'));
+    history.undo();
+    expect(history.canRedo()).toBe(true);
+    history.push(getNodeMoveCommand('2'));
+    expect(history.canRedo()).toBe(false);
+    history.clear();
+    expect(history.canUndo()).toBe(false);
+});
+
+test('undo and redo bend points', () => {
+    const history = new DiagramHistory();
+    history.push({
+        type: HistoryCommandType.EDGE_BEND_POINTS,
+        edgeId: '8',
+        bendPointsOrig: [],
+        bendPointsNew: [{ x: 10, y: 20 }],
+    });
+    const command = history.undo();
+    expect(command?.type == HistoryCommandType.EDGE_BEND_POINTS && command.bendPointsOrig).toEqual([]);
+    expect(history.redo()).toBe(command);
+});
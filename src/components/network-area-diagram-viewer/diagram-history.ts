@@ -0,0 +1,89 @@
+/**
+ * Copyright (c) 2024, RTE (http://www.rte-france.com)
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ * SPDX-License-Identifier: MPL-2.0
+ */
+
+import { PointMetadata } from './diagram-metadata';
+import { NODEMOVE } from './diagram-utils';
+
+export enum HistoryCommandType {
+    NODE_MOVE = 'NODE_MOVE',
+    NODES_MOVE = 'NODES_MOVE',
+    TEXT_NODE_MOVE = 'TEXT_NODE_MOVE',
+    EDGE_BEND_POINTS = 'EDGE_BEND_POINTS',
+}
+
+// move of a voltage level, boundary or three windings transformer node
+export type NodeMoveCommand = {
+    type: HistoryCommandType.NODE_MOVE;
+    nodeId: string;
+    move: NODEMOVE;
+};
+
+// move of several nodes at once, e.g. a group of selected nodes
+export type NodesMoveCommand = {
+    type: HistoryCommandType.NODES_MOVE;
+    moves: Map<string, NODEMOVE>;
+};
+
+// move of a text node: shift and connection shift w.r.t. the voltage level node
+export type TextNodeMoveCommand = {
+    type: HistoryCommandType.TEXT_NODE_MOVE;
+    textNodeId: string;
+    shiftMove: NODEMOVE;
+    connectionShiftMove: NODEMOVE;
+};
+
+// addition, move or removal of a bend point of an edge
+export type EdgeBendPointsCommand = {
+    type: HistoryCommandType.EDGE_BEND_POINTS;
+    edgeId: string;
+    bendPointsOrig: PointMetadata[];
+    bendPointsNew: PointMetadata[];
+};
+
+export type HistoryCommand = NodeMoveCommand | NodesMoveCommand | TextNodeMoveCommand | EdgeBendPointsCommand;
+
+// undo / redo stacks of the commands applied to a diagram
+export class DiagramHistory {
+    private undoStack: HistoryCommand[] = [];
+    private redoStack: HistoryCommand[] = [];
+
+    // a new command invalidates the commands that were undone
+    public push(command: HistoryCommand): void {
+        this.undoStack.push(command);
+        this.redoStack = [];
+    }
+
+    public undo(): HistoryCommand | undefined {
+        const command = this.undoStack.pop();
+        if (command !== undefined) {
+            this.redoStack.push(command);
+        }
+        return command;
+    }
+
+    public redo(): HistoryCommand | undefined {
+        const command = this.redoStack.pop();
+        if (command !== undefined) {
+            this.undoStack.push(command);
+        }
+        return command;
+    }
+
+    public canUndo(): boolean {
+        return this.undoStack.length > 0;
+    }
+
+    public canRedo(): boolean {
+        return this.redoStack.length > 0;
+    }
+
+    public clear(): void {
+        this.undoStack = [];
+        this.redoStack = [];
+    }
+}
@@ -0,0 +1,51 @@
+/**
+ * Copyright (c) 2024, RTE (http://www.rte-france.com)
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ * SPDX-License-Identifier: MPL-2.0
+ */
+
+import {
+    checkDiagramLayoutVersion,
+    DIAGRAM_LAYOUT_VERSION,
+    getDiagramLayout,
+    UnsupportedLayoutVersionError,
+} from './diagram-layout';
+import { DiagramMetadata } from './diagram-metadata';
+
+test('getDiagramLayout', () => {
+    const metadata = {
+        nodes: [
+            { svgId: '0', equipmentId: 'VLGEN', x: -452.59, y: -274.01 },
+            { svgId: '2', equipmentId: 'VLHV1', x: -245.26, y: 34.3 },
+        ],
+        textNodes: [
+            {
+                svgId: '0-textnode',
+                equipmentId: 'VLGEN',
+                vlNode: '0',
+                shiftX: 100.0,
+                shiftY: -40.0,
+                connectionShiftX: 100.0,
+                connectionShiftY: -15.0,
+            },
+        ],
+    } as DiagramMetadata;
+    const layout = getDiagramLayout(metadata);
+    expect(layout.version).toBe(DIAGRAM_LAYOUT_VERSION);
+    expect(layout.nodes).toEqual([
+        { equipmentId: 'VLGEN', x: -452.59, y: -274.01 },
+        { equipmentId: 'VLHV1', x: -245.26, y: 34.3 },
+    ]);
+    expect(layout.textNodes).toEqual([
+        { equipmentId: 'VLGEN', shiftX: 100, shiftY: -40, connectionShiftX: 100, connectionShiftY: -15 },
+    ]);
+    expect(getDiagramLayout(null).nodes.length).toBe(0);
+});
+
+test('checkDiagramLayoutVersion', () => {
+    const layout = { version: DIAGRAM_LAYOUT_VERSION + 1, nodes: [], textNodes: [] };
+    expect(() => checkDiagramLayoutVersion(layout)).toThrow(UnsupportedLayoutVersionError);
+    expect(() => checkDiagramLayoutVersion({ ...layout, version: DIAGRAM_LAYOUT_VERSION })).not.toThrow();
+});
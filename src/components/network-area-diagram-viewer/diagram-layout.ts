@@ -0,0 +1,75 @@
+/**
+ * Copyright (c) 2024, RTE (http://www.rte-france.com)
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ * SPDX-License-Identifier: MPL-2.0
+ */
+
+import { DiagramMetadata } from './diagram-metadata';
+
+export const DIAGRAM_LAYOUT_VERSION = 1;
+
+// positions document of an edited diagram, nodes and text nodes being identified by their equipment id
+export interface DiagramLayout {
+    version: number;
+    nodes: NodeLayout[];
+    textNodes: TextNodeLayout[];
+}
+
+export interface NodeLayout {
+    equipmentId: string;
+    x: number;
+    y: number;
+}
+
+export interface TextNodeLayout {
+    equipmentId: string;
+    shiftX: number;
+    shiftY: number;
+    connectionShiftX: number;
+    connectionShiftY: number;
+}
+
+// ids of the layout entries not found in the diagram
+export interface DiagramLayoutReport {
+    unknownNodes: string[];
+    unknownTextNodes: string[];
+}
+
+// error thrown when applying a positions document of another version
+export class UnsupportedLayoutVersionError extends Error {
+    version: number;
+
+    constructor(version: number) {
+        super('Unsupported diagram layout version: ' + version);
+        this.name = 'UnsupportedLayoutVersionError';
+        this.version = version;
+    }
+}
+
+// check that a positions document can be applied, throwing an UnsupportedLayoutVersionError otherwise
+export function checkDiagramLayoutVersion(layout: DiagramLayout): void {
+    if (layout.version !== DIAGRAM_LAYOUT_VERSION) {
+        throw new UnsupportedLayoutVersionError(layout.version);
+    }
+}
+
+// get the positions document from the metadata of a diagram
+export function getDiagramLayout(diagramMetadata: DiagramMetadata | null): DiagramLayout {
+    return {
+        version: DIAGRAM_LAYOUT_VERSION,
+        nodes: (diagramMetadata?.nodes ?? []).map((node) => ({
+            equipmentId: node.equipmentId,
+            x: node.x,
+            y: node.y,
+        })),
+        textNodes: (diagramMetadata?.textNodes ?? []).map((textNode) => ({
+            equipmentId: textNode.equipmentId,
+            shiftX: textNode.shiftX,
+            shiftY: textNode.shiftY,
+            connectionShiftX: textNode.connectionShiftX,
+            connectionShiftY: textNode.connectionShiftY,
+        })),
+    };
+}
@@ -0,0 +1,169 @@
+/**
+ * Copyright (c) 2024, RTE (http://www.rte-france.com)
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ * SPDX-License-Identifier: MPL-2.0
+ */
+
+import { Point } from '@svgdotjs/svg.js';
+import { DiagramMetadata } from './diagram-metadata';
+import { getDiagramMerge, getDiagramRemoval, setNewSvgIds } from './diagram-merge';
+
+const metadata = {
+    busNodes: [
+        { svgId: '1', equipmentId: 'VLGEN_0', nbNeighbours: 0, index: 0, vlNode: '0' },
+        { svgId: '3', equipmentId: 'VLHV1_0', nbNeighbours: 0, index: 0, vlNode: '2' },
+    ],
+    nodes: [
+        { svgId: '0', equipmentId: 'VLGEN', x: 0, y: 0 },
+        { svgId: '2', equipmentId: 'VLHV1', x: 100, y: 0 },
+        { svgId: '5', equipmentId: 'DL_BOUNDARY', x: 0, y: 100 },
+    ],
+    edges: [
+        {
+            svgId: '8',
+            equipmentId: 'NGEN_NHV1',
+            node1: '0',
+            node2: '2',
+            busNode1: '1',
+            busNode2: '3',
+            type: 'LineEdge',
+        },
+        {
+            svgId: '9',
+            equipmentId: 'DL',
+            node1: '0',
+            node2: '5',
+            busNode1: '1',
+            busNode2: '',
+            type: 'DanglingLineEdge',
+        },
+    ],
+    textNodes: [{ svgId: '0-textnode', equipmentId: 'VLGEN', vlNode: '0' }],
+} as DiagramMetadata;
+
+const fragmentMetadata = {
+    busNodes: [
+        { svgId: 'f1', equipmentId: 'VLHV1_0', nbNeighbours: 0, index: 0, vlNode: 'f0' },
+        { svgId: 'f3', equipmentId: 'VLHV2_0', nbNeighbours: 0, index: 0, vlNode: 'f2' },
+    ],
+    nodes: [
+        { svgId: 'f0', equipmentId: 'VLHV1', x: 0, y: 50 },
+        { svgId: 'f2', equipmentId: 'VLHV2', x: 200, y: 50 },
+    ],
+    edges: [
+        {
+            svgId: 'f4',
+            equipmentId: 'NHV1_NHV2',
+            node1: 'f0',
+            node2: 'f2',
+            busNode1: 'f1',
+            busNode2: 'f3',
+            type: 'LineEdge',
+        },
+        {
+            svgId: 'f5',
+            equipmentId: 'NGEN_NHV1',
+            node1: 'f6',
+            node2: 'f0',
+            busNode1: 'f7',
+            busNode2: 'f1',
+            type: 'LineEdge',
+        },
+    ],
+    textNodes: [
+        { svgId: 'f0-textnode', equipmentId: 'VLHV1', vlNode: 'f0' },
+        { svgId: 'f2-textnode', equipmentId: 'VLHV2', vlNode: 'f2' },
+    ],
+} as DiagramMetadata;
+
+test('getDiagramMerge', () => {
+    const merge = getDiagramMerge(metadata, fragmentMetadata);
+    // numbered after the ids of the diagram
+    expect(merge.nodes.map((node) => node.svgId)).toEqual(['10']);
+    expect(merge.busNodes).toEqual([{ svgId: '11', equipmentId: 'VLHV2_0', nbNeighbours: 0, index: 0, vlNode: '10' }]);
+    expect(merge.textNodes).toEqual([{ svgId: '10-textnode', equipmentId: 'VLHV2', vlNode: '10' }]);
+    // reconnected to the node and bus node of VLHV1, the edge already in the diagram being skipped
+    expect(merge.edges).toEqual([
+        {
+            svgId: '12',
+            equipmentId: 'NHV1_NHV2',
+            node1: '2',
+            node2: '10',
+            busNode1: '3',
+            busNode2: '11',
+            type: 'LineEdge',
+        },
+    ]);
+    // placed w.r.t. VLHV1
+    expect(merge.positions).toEqual(new Map<string, Point>([['10', new Point(300, 0)]]));
+    expect(merge.svgIds).toEqual(['f2', 'f2-textnode', 'f2-textedge', 'f4']);
+    expect(merge.newSvgIds.get('f2-textedge')).toBe('10-textedge');
+    expect(merge.newSvgIds.get('f4.2')).toBe('12.2');
+});
+
+test('getDiagramMerge with the ids of the diagram', () => {
+    // numbered from 0 like the diagram
+    const numberedFragmentMetadata = {
+        busNodes: [
+            { svgId: '1', equipmentId: 'VLHV1_0', nbNeighbours: 0, index: 0, vlNode: '0' },
+            { svgId: '3', equipmentId: 'VLHV2_0', nbNeighbours: 0, index: 0, vlNode: '2' },
+        ],
+        nodes: [
+            { svgId: '0', equipmentId: 'VLHV1', x: 0, y: 50 },
+            { svgId: '2', equipmentId: 'VLHV2', x: 200, y: 50 },
+        ],
+        edges: [
+            {
+                svgId: '4',
+                equipmentId: 'NHV1_NHV2',
+                node1: '0',
+                node2: '2',
+                busNode1: '1',
+                busNode2: '3',
+                type: 'LineEdge',
+            },
+        ],
+        textNodes: [
+            { svgId: '0-textnode', equipmentId: 'VLHV1', vlNode: '0' },
+            { svgId: '2-textnode', equipmentId: 'VLHV2', vlNode: '2' },
+        ],
+    } as DiagramMetadata;
+    // the id 11 being used by another element of the diagram
+    const merge = getDiagramMerge(metadata, numberedFragmentMetadata, (svgId) => svgId == '11');
+    expect(merge.nodes.map((node) => node.svgId)).toEqual(['10']);
+    expect(merge.busNodes.map((busNode) => [busNode.svgId, busNode.vlNode])).toEqual([['12', '10']]);
+    expect(merge.textNodes.map((textNode) => [textNode.svgId, textNode.vlNode])).toEqual([['10-textnode', '10']]);
+    expect(merge.edges.map((edge) => [edge.svgId, edge.node1, edge.node2, edge.busNode1, edge.busNode2])).toEqual([
+        ['13', '2', '10', '3', '12'],
+    ]);
+    expect(merge.positions).toEqual(new Map<string, Point>([['10', new Point(300, 0)]]));
+    expect(merge.svgIds).toEqual(['2', '2-textnode', '2-textedge', '4']);
+
+    const fragment = new DOMParser().parseFromString(
+        '<svg xmlns="http://www.w3.org/2000/svg"><g id="2"><circle id="3"/></g><g id="4"><g id="4.1"/><g id="4.2"/></g></svg>',
+        'image/svg+xml'
+    ).documentElement;
+    [...fragment.children].forEach((element) => setNewSvgIds(element, merge.newSvgIds));
+    expect([...fragment.querySelectorAll('[id]')].map((element) => element.id)).toEqual([
+        '10',
+        '12',
+        '13',
+        '13.1',
+        '13.2',
+    ]);
+});
+
+test('getDiagramRemoval', () => {
+    const isVoltageLevelNode = (nodeId: string) => nodeId != '5';
+    let removal = getDiagramRemoval(metadata, '0', isVoltageLevelNode);
+    expect(removal.nodes.map((node) => node.svgId)).toEqual(['0', '5']);
+    expect(removal.edges.map((edge) => edge.svgId)).toEqual(['8', '9']);
+    expect(removal.neighbours).toEqual(['2']);
+
+    removal = getDiagramRemoval(metadata, '2', isVoltageLevelNode);
+    expect(removal.nodes.map((node) => node.svgId)).toEqual(['2']);
+    expect(removal.edges.map((edge) => edge.svgId)).toEqual(['8']);
+    expect(removal.neighbours).toEqual(['0']);
+});
@@ -0,0 +1,202 @@
+/**
+ * Copyright (c) 2024, RTE (http://www.rte-france.com)
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ * SPDX-License-Identifier: MPL-2.0
+ */
+
+import { Point } from '@svgdotjs/svg.js';
+import * as DiagramUtils from './diagram-utils';
+import { BusNodeMetadata, DiagramMetadata, EdgeMetadata, NodeMetadata, TextNodeMetadata } from './diagram-metadata';
+
+// elements of a diagram fragment to add to a diagram: the nodes and the edges not already in the diagram,
+// the edges being reconnected to the nodes and bus nodes of the diagram
+export interface DiagramMerge {
+    nodes: NodeMetadata[];
+    busNodes: BusNodeMetadata[];
+    edges: EdgeMetadata[];
+    textNodes: TextNodeMetadata[];
+    positions: Map<string, Point>; // positions of the added nodes in the diagram
+    svgIds: string[]; // ids in the fragment of the SVG elements to add to the diagram
+    newSvgIds: Map<string, string>; // new ids of the added elements and of their children, by their ids in the fragment
+}
+
+// elements of a diagram to remove with a voltage level node
+export interface DiagramRemoval {
+    nodes: NodeMetadata[]; // the voltage level node, and the boundary and 3wt nodes left without edges
+    edges: EdgeMetadata[];
+    neighbours: string[]; // ids of the remaining nodes connected to the removed edges
+}
+
+// get the translation from the fragment coordinates to the diagram coordinates: the mean translation of the nodes
+// in both, none if no common node
+function getFragmentTranslation(nodes: NodeMetadata[], fragmentNodes: NodeMetadata[]): Point {
+    const translations = fragmentNodes.flatMap((fragmentNode) => {
+        const node = nodes.find((node) => node.equipmentId == fragmentNode.equipmentId);
+        return node != null ? [new Point(node.x - fragmentNode.x, node.y - fragmentNode.y)] : [];
+    });
+    if (translations.length == 0) {
+        return new Point(0, 0);
+    }
+    return new Point(
+        translations.reduce((sum, translation) => sum + translation.x, 0) / translations.length,
+        translations.reduce((sum, translation) => sum + translation.y, 0) / translations.length
+    );
+}
+
+// get new ids for the added elements of a fragment, numbered after the numeric ids of the diagram and skipping
+// the used ids, the fragment being numbered from 0 like the diagram
+function getNewSvgIds(
+    diagramMetadata: DiagramMetadata,
+    nodes: NodeMetadata[],
+    busNodes: BusNodeMetadata[],
+    edges: EdgeMetadata[],
+    isUsedSvgId: (svgId: string) => boolean
+): Map<string, string> {
+    let nextId =
+        Math.max(
+            -1,
+            ...[...diagramMetadata.nodes, ...diagramMetadata.busNodes, ...diagramMetadata.edges]
+                .map((element) => Number(element.svgId))
+                .filter((svgId) => Number.isInteger(svgId))
+        ) + 1;
+    const getNewSvgId = () => {
+        while (isUsedSvgId(String(nextId))) {
+            nextId++;
+        }
+        return String(nextId++);
+    };
+    const newSvgIds: Map<string, string> = new Map<string, string>();
+    nodes.forEach((node) => {
+        const newSvgId = getNewSvgId();
+        newSvgIds.set(node.svgId, newSvgId);
+        newSvgIds.set(DiagramUtils.getTextNodeId(node.svgId), DiagramUtils.getTextNodeId(newSvgId));
+        newSvgIds.set(DiagramUtils.getTextEdgeId(node.svgId), DiagramUtils.getTextEdgeId(newSvgId));
+    });
+    busNodes.forEach((busNode) => newSvgIds.set(busNode.svgId, getNewSvgId()));
+    edges.forEach((edge) => {
+        const newSvgId = getNewSvgId();
+        newSvgIds.set(edge.svgId, newSvgId);
+        // the half edges
+        newSvgIds.set(edge.svgId + '.1', newSvgId + '.1');
+        newSvgIds.set(edge.svgId + '.2', newSvgId + '.2');
+    });
+    return newSvgIds;
+}
+
+// get the elements of a diagram fragment to add to a diagram, the nodes and bus nodes being identified by
+// their equipment ids; the edges of the fragment already in the diagram are skipped
+// the added elements get new ids, not used in the diagram, the returned metadata referring to them
+export function getDiagramMerge(
+    diagramMetadata: DiagramMetadata,
+    fragmentMetadata: DiagramMetadata,
+    isUsedSvgId: (svgId: string) => boolean = () => false
+): DiagramMerge {
+    const nodeIds: Map<string, string> = new Map<string, string>();
+    fragmentMetadata.nodes.forEach((fragmentNode) => {
+        const node = diagramMetadata.nodes.find((node) => node.equipmentId == fragmentNode.equipmentId);
+        nodeIds.set(fragmentNode.svgId, node?.svgId ?? fragmentNode.svgId);
+    });
+    const busNodeIds: Map<string, string> = new Map<string, string>();
+    fragmentMetadata.busNodes.forEach((fragmentBusNode) => {
+        const busNode = diagramMetadata.busNodes.find((busNode) => busNode.equipmentId == fragmentBusNode.equipmentId);
+        busNodeIds.set(fragmentBusNode.svgId, busNode?.svgId ?? fragmentBusNode.svgId);
+    });
+    const isAdded = (fragmentNodeId: string) => nodeIds.get(fragmentNodeId) === fragmentNodeId;
+
+    const equipmentIds = new Set(diagramMetadata.edges.map((edge) => edge.equipmentId));
+    const nodes = fragmentMetadata.nodes.filter((fragmentNode) => isAdded(fragmentNode.svgId));
+    const busNodes = fragmentMetadata.busNodes.filter((busNode) => isAdded(busNode.vlNode));
+    const edges = fragmentMetadata.edges.filter(
+        (edge) => !equipmentIds.has(edge.equipmentId) && nodeIds.has(edge.node1) && nodeIds.has(edge.node2)
+    );
+    const textNodes = fragmentMetadata.textNodes.filter((textNode) => isAdded(textNode.vlNode));
+
+    const newSvgIds = getNewSvgIds(diagramMetadata, nodes, busNodes, edges, isUsedSvgId);
+    // the nodes and bus nodes of the diagram, or the new ids of the added ones
+    const getNodeId = (fragmentNodeId: string) => newSvgIds.get(fragmentNodeId) ?? nodeIds.get(fragmentNodeId);
+    const getBusNodeId = (fragmentBusNodeId: string) =>
+        newSvgIds.get(fragmentBusNodeId) ?? busNodeIds.get(fragmentBusNodeId) ?? fragmentBusNodeId;
+
+    const translation = getFragmentTranslation(diagramMetadata.nodes, fragmentMetadata.nodes);
+    const positions: Map<string, Point> = new Map<string, Point>();
+    nodes.forEach((node) =>
+        positions.set(getNodeId(node.svgId) ?? node.svgId, new Point(node.x + translation.x, node.y + translation.y))
+    );
+
+    return {
+        nodes: nodes.map((node) => ({ ...node, svgId: getNodeId(node.svgId) ?? node.svgId })),
+        busNodes: busNodes.map((busNode) => ({
+            ...busNode,
+            svgId: getBusNodeId(busNode.svgId),
+            vlNode: getNodeId(busNode.vlNode) ?? busNode.vlNode,
+        })),
+        edges: edges.map((edge) => ({
+            ...edge,
+            svgId: newSvgIds.get(edge.svgId) ?? edge.svgId,
+            node1: getNodeId(edge.node1) ?? edge.node1,
+            node2: getNodeId(edge.node2) ?? edge.node2,
+            busNode1: getBusNodeId(edge.busNode1),
+            busNode2: getBusNodeId(edge.busNode2),
+        })),
+        textNodes: textNodes.map((textNode) => ({
+            ...textNode,
+            svgId: newSvgIds.get(textNode.svgId) ?? textNode.svgId,
+            vlNode: getNodeId(textNode.vlNode) ?? textNode.vlNode,
+        })),
+        positions: positions,
+        svgIds: [
+            ...nodes.map((node) => node.svgId),
+            ...textNodes.flatMap((textNode) => [textNode.svgId, DiagramUtils.getTextEdgeId(textNode.vlNode)]),
+            ...edges.map((edge) => edge.svgId),
+        ],
+        newSvgIds: newSvgIds,
+    };
+}
+
+// give their new ids to an SVG element of a fragment and to its children, e.g. the bus nodes of a node
+export function setNewSvgIds(element: Element, newSvgIds: Map<string, string>) {
+    [element, ...element.querySelectorAll('[id]')].forEach((child) => {
+        const newSvgId = newSvgIds.get(child.id);
+        if (newSvgId !== undefined) {
+            child.id = newSvgId;
+        }
+    });
+}
+
+// get the elements to remove with a voltage level node: its edges, and the boundary and three windings
+// transformer nodes left without edges
+export function getDiagramRemoval(
+    diagramMetadata: DiagramMetadata,
+    nodeId: string,
+    isVoltageLevelNode: (nodeId: string) => boolean
+): DiagramRemoval {
+    const removedNodeIds: Set<string> = new Set<string>([nodeId]);
+    const nodeEdges = diagramMetadata.edges.filter((edge) => edge.node1 == nodeId || edge.node2 == nodeId);
+    diagramMetadata.nodes
+        .filter((node) => node.svgId != nodeId && !isVoltageLevelNode(node.svgId))
+        .forEach((node) => {
+            const otherNodeEdges = diagramMetadata.edges.filter(
+                (edge) => edge.node1 == node.svgId || edge.node2 == node.svgId
+            );
+            if (otherNodeEdges.length > 0 && otherNodeEdges.every((edge) => nodeEdges.includes(edge))) {
+                removedNodeIds.add(node.svgId);
+            }
+        });
+    // with the edges of the removed boundary and three windings transformer nodes
+    const edges = diagramMetadata.edges.filter(
+        (edge) => removedNodeIds.has(edge.node1) || removedNodeIds.has(edge.node2)
+    );
+    const neighbours: Set<string> = new Set<string>();
+    edges.forEach((edge) => {
+        [edge.node1, edge.node2]
+            .filter((edgeNodeId) => !removedNodeIds.has(edgeNodeId))
+            .forEach((edgeNodeId) => neighbours.add(edgeNodeId));
+    });
+    return {
+        nodes: diagramMetadata.nodes.filter((node) => removedNodeIds.has(node.svgId)),
+        edges: edges,
+        neighbours: [...neighbours],
+    };
+}
@@ -48,6 +48,7 @@ export interface NodeMetadata {
     x: number;
     y: number;
     fictitious?: boolean;
+    locked?: boolean;
 }
 
 export interface EdgeMetadata {
@@ -58,6 +59,12 @@ export interface EdgeMetadata {
     busNode1: string;
     busNode2: string;
     type: string;
+    bendPoints?: PointMetadata[];
+}
+
+export interface PointMetadata {
+    x: number;
+    y: number;
 }
 
 export interface TextNodeMetadata {
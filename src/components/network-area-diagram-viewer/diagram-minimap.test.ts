@@ -0,0 +1,40 @@
+/**
+ * Copyright (c) 2024, RTE (http://www.rte-france.com)
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ * SPDX-License-Identifier: MPL-2.0
+ */
+
+import { DiagramMinimap, getNodesBounds } from './diagram-minimap';
+import { DiagramMetadata, NodeMetadata } from './diagram-metadata';
+
+const metadata = {
+    nodes: [
+        { svgId: '0', equipmentId: 'VLGEN', x: -100, y: 50 },
+        { svgId: '2', equipmentId: 'VLHV1', x: 300, y: -150 },
+    ],
+    edges: [
+        { svgId: '4', equipmentId: 'NGEN_NHV1', node1: '0', node2: '2' },
+        { svgId: '5', equipmentId: 'UNKNOWN', node1: '0', node2: '9' },
+    ],
+} as DiagramMetadata;
+
+test('getNodesBounds', () => {
+    expect(getNodesBounds(metadata.nodes, 10)).toEqual({ x: -110, y: -160, width: 420, height: 220 });
+    expect(getNodesBounds([] as NodeMetadata[], 10)).toEqual({ x: -10, y: -10, width: 20, height: 20 });
+});
+
+test('DiagramMinimap', () => {
+    const container = document.createElement('div');
+    const minimap = new DiagramMinimap(container, 200, 150, () => {});
+    minimap.draw(metadata);
+    expect(container.querySelectorAll('line').length).toBe(1);
+    expect(container.querySelectorAll('circle').length).toBe(2);
+    minimap.setViewBox({ x: 0, y: 10, width: 500, height: 400 });
+    const viewBoxRectangle = container.querySelector('rect');
+    expect(viewBoxRectangle?.getAttribute('x')).toBe('0');
+    expect(viewBoxRectangle?.getAttribute('width')).toBe('500');
+    minimap.remove();
+    expect(container.querySelector('svg')).toBeNull();
+});
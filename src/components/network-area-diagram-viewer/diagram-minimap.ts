@@ -0,0 +1,123 @@
+/**
+ * Copyright (c) 2024, RTE (http://www.rte-france.com)
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ * SPDX-License-Identifier: MPL-2.0
+ */
+
+import { G, Point, Rect, SVG, Svg, ViewBoxLike } from '@svgdotjs/svg.js';
+import { DiagramMetadata, NodeMetadata } from './diagram-metadata';
+
+const MINIMAP_MARGIN = 200;
+const MINIMAP_EDGE_COLOR = '#9e9e9e';
+const MINIMAP_NODE_COLOR = '#546e7a';
+const MINIMAP_NODE_RADIUS = 4; // in pixels
+const MINIMAP_VIEWBOX_COLOR = '#1e90ff';
+
+// get the bounds of the nodes, with a margin
+export function getNodesBounds(nodes: NodeMetadata[], margin: number): ViewBoxLike {
+    if (nodes.length == 0) {
+        return { x: -margin, y: -margin, width: 2 * margin, height: 2 * margin };
+    }
+    const xs = nodes.map((node) => node.x);
+    const ys = nodes.map((node) => node.y);
+    const minX = Math.min(...xs);
+    const minY = Math.min(...ys);
+    return {
+        x: minX - margin,
+        y: minY - margin,
+        width: Math.max(...xs) - minX + 2 * margin,
+        height: Math.max(...ys) - minY + 2 * margin,
+    };
+}
+
+// overview of a diagram: its nodes and edges, without details, and the area displayed by the viewer
+export class DiagramMinimap {
+    container: HTMLElement;
+    svgDraw: Svg;
+    diagramGroup: G;
+    viewBoxRectangle: Rect;
+    onPanCallback: (centre: Point) => void;
+    panning: boolean = false;
+
+    constructor(container: HTMLElement, width: number, height: number, onPanCallback: (centre: Point) => void) {
+        this.container = container;
+        this.onPanCallback = onPanCallback;
+        this.svgDraw = SVG().addTo(container).size(width, height).css('cursor', 'pointer');
+        this.diagramGroup = this.svgDraw.group();
+        this.viewBoxRectangle = this.svgDraw.rect(0, 0).attr({
+            fill: MINIMAP_VIEWBOX_COLOR,
+            'fill-opacity': 0.1,
+            stroke: MINIMAP_VIEWBOX_COLOR,
+            'stroke-width': 2,
+            'vector-effect': 'non-scaling-stroke',
+            'pointer-events': 'none',
+        });
+        // clicking or dragging in the minimap pans the viewer
+        this.svgDraw.on('mousedown', (e: Event) => {
+            if ((e as MouseEvent).button == 0) {
+                e.preventDefault();
+                this.panning = true;
+                this.onPanCallback(this.getMousePosition(e as MouseEvent));
+            }
+        });
+        this.svgDraw.on('mousemove', (e: Event) => {
+            if (this.panning) {
+                e.preventDefault();
+                this.onPanCallback(this.getMousePosition(e as MouseEvent));
+            }
+        });
+        this.svgDraw.on('mouseup mouseleave', () => {
+            this.panning = false;
+        });
+    }
+
+    // draw the nodes and the edges of the diagram, at their current positions
+    public draw(diagramMetadata: DiagramMetadata | null): void {
+        const nodes = diagramMetadata?.nodes ?? [];
+        const bounds = getNodesBounds(nodes, MINIMAP_MARGIN);
+        this.svgDraw.viewbox(bounds.x, bounds.y, bounds.width, bounds.height);
+        this.diagramGroup.clear();
+        const nodePositions: Map<string, Point> = new Map<string, Point>();
+        nodes.forEach((node) => nodePositions.set(node.svgId, new Point(node.x, node.y)));
+        diagramMetadata?.edges.forEach((edge) => {
+            const position1 = nodePositions.get(edge.node1);
+            const position2 = nodePositions.get(edge.node2);
+            if (position1 != null && position2 != null) {
+                this.diagramGroup.line(position1.x, position1.y, position2.x, position2.y).attr({
+                    stroke: MINIMAP_EDGE_COLOR,
+                    'vector-effect': 'non-scaling-stroke',
+                });
+            }
+        });
+        // the node radius is constant in pixels
+        const radius = (MINIMAP_NODE_RADIUS * bounds.width) / (Number(this.svgDraw.width()) || 1);
+        nodePositions.forEach((position) => {
+            this.diagramGroup
+                .circle(2 * radius)
+                .center(position.x, position.y)
+                .fill(MINIMAP_NODE_COLOR);
+        });
+    }
+
+    // show the area displayed by the viewer
+    public setViewBox(viewBox: ViewBoxLike | undefined): void {
+        if (viewBox != null) {
+            this.viewBoxRectangle.move(viewBox.x, viewBox.y).size(viewBox.width, viewBox.height);
+        }
+    }
+
+    public remove(): void {
+        this.svgDraw.remove();
+    }
+
+    // position w.r.t the minimap box
+    private getMousePosition(event: MouseEvent): Point {
+        const ctm = this.svgDraw.node.getScreenCTM();
+        return new Point(
+            (event.clientX - (ctm?.e ?? 0)) / (ctm?.a ?? 1),
+            (event.clientY - (ctm?.f ?? 0)) / (ctm?.d ?? 1)
+        );
+    }
+}
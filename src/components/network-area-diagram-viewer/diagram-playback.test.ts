@@ -0,0 +1,84 @@
+/**
+ * Copyright (c) 2024, RTE (http://www.rte-france.com)
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ * SPDX-License-Identifier: MPL-2.0
+ */
+
+import { DiagramPlayback, TimedDiagramValues } from './diagram-playback';
+
+const frames: TimedDiagramValues[] = [0, 2, 1].map((hour) => ({
+    timestamp: hour * 3600000,
+    values: { edges: [{ equipmentId: 'NGEN_NHV1', side: 1, p: 600 + hour }] },
+}));
+
+function getDisplayedP(onFrameCallback: jest.Mock): number | undefined {
+    return onFrameCallback.mock.lastCall?.[0].edges[0].p;
+}
+
+beforeEach(() => {
+    jest.useFakeTimers();
+});
+
+afterEach(() => {
+    jest.useRealTimers();
+});
+
+test('play and pause', () => {
+    const onFrameCallback = jest.fn();
+    const onTimestampCallback = jest.fn();
+    const playback = new DiagramPlayback(frames, onFrameCallback, onTimestampCallback);
+    expect(playback.getIndex()).toBe(-1);
+
+    playback.setSpeed(2);
+    playback.play();
+    expect(playback.isPlaying()).toBe(true);
+    expect(getDisplayedP(onFrameCallback)).toBe(600);
+    expect(onTimestampCallback).toHaveBeenLastCalledWith(0, 0);
+
+    // the time steps are sorted
+    jest.advanceTimersByTime(500);
+    expect(getDisplayedP(onFrameCallback)).toBe(601);
+    expect(onTimestampCallback).toHaveBeenLastCalledWith(3600000, 1);
+
+    playback.pause();
+    jest.advanceTimersByTime(2000);
+    expect(playback.getIndex()).toBe(1);
+
+    // stopped at the last time step
+    playback.play();
+    jest.advanceTimersByTime(2000);
+    expect(playback.getIndex()).toBe(2);
+    expect(playback.isPlaying()).toBe(false);
+    expect(onFrameCallback).toHaveBeenCalledTimes(3);
+
+    // from the first time step, looping after the last one
+    playback.setLoop(true);
+    playback.play();
+    expect(playback.getIndex()).toBe(0);
+    jest.advanceTimersByTime(1500);
+    expect(playback.getIndex()).toBe(0);
+    expect(playback.isPlaying()).toBe(true);
+    playback.pause();
+});
+
+test('seek and step', () => {
+    const onFrameCallback = jest.fn();
+    const playback = new DiagramPlayback(frames, onFrameCallback, null);
+    playback.seek(5);
+    expect(playback.getIndex()).toBe(2);
+    expect(getDisplayedP(onFrameCallback)).toBe(602);
+
+    playback.seekTimestamp(5400000);
+    expect(playback.getTimestamp()).toBe(3600000);
+    playback.seekTimestamp(-1);
+    expect(playback.getIndex()).toBe(0);
+
+    playback.play();
+    playback.step();
+    expect(playback.isPlaying()).toBe(false);
+    expect(playback.getIndex()).toBe(1);
+    playback.step(-2);
+    expect(playback.getIndex()).toBe(0);
+});
@@ -0,0 +1,135 @@
+/**
+ * Copyright (c) 2024, RTE (http://www.rte-france.com)
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ * SPDX-License-Identifier: MPL-2.0
+ */
+
+import { DiagramValues } from './diagram-values';
+
+// values of the diagram at a time step, e.g. a step of a daily simulation
+export interface TimedDiagramValues {
+    timestamp: number; // in ms since epoch
+    values: DiagramValues;
+}
+
+export type OnPlaybackTimestampCallbackType = (timestamp: number, index: number) => void;
+
+const PLAYBACK_SPEED_DEFAULT = 1; // in time steps per second
+
+// playback of a series of time steps: the values of each displayed time step are applied to the diagram
+export class DiagramPlayback {
+    private frames: TimedDiagramValues[];
+    private onFrameCallback: (values: DiagramValues) => void;
+    private onTimestampCallback: OnPlaybackTimestampCallbackType | null;
+    private index: number = -1;
+    private speed: number = PLAYBACK_SPEED_DEFAULT;
+    private loop: boolean = false;
+    private timeout: ReturnType<typeof setTimeout> | undefined;
+
+    constructor(
+        frames: TimedDiagramValues[],
+        onFrameCallback: (values: DiagramValues) => void,
+        onTimestampCallback: OnPlaybackTimestampCallbackType | null
+    ) {
+        this.frames = [...frames].sort((frame1, frame2) => frame1.timestamp - frame2.timestamp);
+        this.onFrameCallback = onFrameCallback;
+        this.onTimestampCallback = onTimestampCallback;
+    }
+
+    // play from the displayed time step, or from the first one if none is displayed or the last one is displayed
+    public play(): void {
+        if (this.isPlaying() || this.frames.length == 0) {
+            return;
+        }
+        if (this.index < 0 || this.index == this.frames.length - 1) {
+            this.showFrame(0);
+        }
+        this.scheduleNextFrame();
+    }
+
+    public pause(): void {
+        clearTimeout(this.timeout);
+        this.timeout = undefined;
+    }
+
+    public isPlaying(): boolean {
+        return this.timeout !== undefined;
+    }
+
+    // display a time step, the playback going on from it if playing
+    public seek(index: number): void {
+        if (this.frames.length == 0) {
+            return;
+        }
+        this.showFrame(Math.min(Math.max(index, 0), this.frames.length - 1));
+        if (this.isPlaying()) {
+            this.pause();
+            this.scheduleNextFrame();
+        }
+    }
+
+    // display the last time step at or before the timestamp, or the first one
+    public seekTimestamp(timestamp: number): void {
+        const index = this.frames.findIndex((frame) => frame.timestamp > timestamp);
+        this.seek(index < 0 ? this.frames.length - 1 : index - 1);
+    }
+
+    // pause the playback, then move by a number of time steps, backward if negative
+    public step(count: number = 1): void {
+        this.pause();
+        this.seek(this.index + count);
+    }
+
+    // set the speed, in time steps per second
+    public setSpeed(speed: number): void {
+        if (speed <= 0) {
+            return;
+        }
+        this.speed = speed;
+        if (this.isPlaying()) {
+            this.pause();
+            this.scheduleNextFrame();
+        }
+    }
+
+    public getSpeed(): number {
+        return this.speed;
+    }
+
+    // when looping, the playback goes on from the first time step after the last one
+    public setLoop(loop: boolean): void {
+        this.loop = loop;
+    }
+
+    // index of the displayed time step, -1 if none
+    public getIndex(): number {
+        return this.index;
+    }
+
+    public getTimestamp(): number | undefined {
+        return this.frames[this.index]?.timestamp;
+    }
+
+    public getLength(): number {
+        return this.frames.length;
+    }
+
+    private showFrame(index: number) {
+        this.index = index;
+        this.onFrameCallback(this.frames[index].values);
+        this.onTimestampCallback?.(this.frames[index].timestamp, index);
+    }
+
+    private scheduleNextFrame() {
+        this.timeout = setTimeout(() => {
+            if (this.index < this.frames.length - 1 || this.loop) {
+                this.showFrame((this.index + 1) % this.frames.length);
+                this.scheduleNextFrame();
+            } else {
+                this.timeout = undefined;
+            }
+        }, 1000 / this.speed);
+    }
+}
@@ -7,8 +7,11 @@
  */
 
 import * as DiagramUtils from './diagram-utils';
-import { EdgeMetadata, BusNodeMetadata, NodeMetadata, TextNodeMetadata } from './diagram-metadata';
+import { DiagramMetadata, EdgeMetadata, BusNodeMetadata, NodeMetadata, TextNodeMetadata } from './diagram-metadata';
 import { SVG, Point } from '@svgdotjs/svg.js';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import FourSubstationsMetadata from '../../../demo/src/diagram-viewers/data/nad-four-substations_metadata.json';
 
 test('getFormattedValue', () => {
     expect(DiagramUtils.getFormattedValue(12)).toBe('12.00');
@@ -126,6 +129,20 @@ test('getDraggableFrom', () => {
     expect(draggagleElement).not.toBeUndefined();
     draggagleElement = DiagramUtils.getDraggableFrom(getSvgLoopEdge());
     expect(draggagleElement).toBeUndefined();
+    const nodes = [{ svgId: '0', equipmentId: 'VLGEN', x: 0, y: 0, locked: true }];
+    expect(DiagramUtils.getDraggableFrom(getSvgNode(), nodes)).toBeUndefined();
+    expect(DiagramUtils.getDraggableFrom(getSvgTextNode(), nodes)).toBeUndefined();
+});
+
+test('isNodeLocked', () => {
+    const nodes = [
+        { svgId: '0', equipmentId: 'VLGEN', x: 0, y: 0, locked: true },
+        { svgId: '2', equipmentId: 'VLHV1', x: 0, y: 0 },
+    ];
+    expect(DiagramUtils.isNodeLocked('0', nodes)).toBe(true);
+    expect(DiagramUtils.isNodeLocked('0-textnode', nodes)).toBe(true);
+    expect(DiagramUtils.isNodeLocked('2', nodes)).toBe(false);
+    expect(DiagramUtils.isNodeLocked('0', undefined)).toBe(false);
 });
 
 test('getSelectableFrom', () => {
@@ -137,6 +154,12 @@ test('getSelectableFrom', () => {
     expect(selectableElement).toBeUndefined();
 });
 
+test('getSelectableEdgeFrom', () => {
+    expect(DiagramUtils.getSelectableEdgeFrom(getSvgNode())).toBeUndefined();
+    expect(DiagramUtils.getSelectableEdgeFrom(getSvgTextNode())).toBeUndefined();
+    expect(DiagramUtils.getSelectableEdgeFrom(getSvgLoopEdge())?.id).toBe('16');
+});
+
 test('getVoltageLevelCircleRadius', () => {
     expect(DiagramUtils.getVoltageLevelCircleRadius(0, 30)).toBe(30);
     expect(DiagramUtils.getVoltageLevelCircleRadius(1, 30)).toBe(60);
@@ -306,15 +329,134 @@ test('getNodeMove', () => {
     expect(nodeMove.yNew).toBe(-352.77);
 });
 
+test('isMoved', () => {
+    expect(DiagramUtils.isMoved({ xOrig: 10, yOrig: 20, xNew: 10, yNew: 20 })).toBe(false);
+    expect(DiagramUtils.isMoved({ xOrig: 10, yOrig: 20, xNew: 10, yNew: 25.5 })).toBe(true);
+});
+
+test('isInRectangle', () => {
+    expect(DiagramUtils.isInRectangle(new Point(10, 10), new Point(0, 20), new Point(20, 0))).toBe(true);
+    expect(DiagramUtils.isInRectangle(new Point(20, 20), new Point(0, 0), new Point(20, 20))).toBe(true);
+    expect(DiagramUtils.isInRectangle(new Point(30, 10), new Point(0, 0), new Point(20, 20))).toBe(false);
+});
+
+test('getCenteredViewBox', () => {
+    let viewBox = DiagramUtils.getCenteredViewBox(new Point(100, 50), 1000, 2);
+    expect(viewBox).toEqual({ x: -400, y: -200, width: 1000, height: 500 });
+    viewBox = DiagramUtils.getCenteredViewBox(new Point(100, 50), 1000, 0.5);
+    expect(viewBox).toEqual({ x: -150, y: -450, width: 500, height: 1000 });
+});
+
+test('getSnappedCoordinate', () => {
+    expect(DiagramUtils.getSnappedCoordinate(124, 50)).toBe(100);
+    expect(DiagramUtils.getSnappedCoordinate(-126, 50)).toBe(-150);
+    expect(DiagramUtils.getSnappedCoordinate(124, 0)).toBe(124);
+});
+
+test('getAlignedCoordinate', () => {
+    expect(DiagramUtils.getAlignedCoordinate(100, [0, 95, 104, 300], 10)).toBe(104);
+    expect(DiagramUtils.getAlignedCoordinate(100, [0, 300], 10)).toBeNull();
+});
+
+test('getContextMenuTargetFrom', () => {
+    const metadata = {
+        busNodes: [{ svgId: '1', equipmentId: 'VLGEN_0', nbNeighbours: 1, index: 0, vlNode: '0' }],
+        nodes: [
+            { svgId: '0', equipmentId: 'VLGEN', x: 0, y: 0 },
+            { svgId: '5', equipmentId: 'BOUNDARY', x: 100, y: 0 },
+        ],
+        edges: [
+            { svgId: '6', equipmentId: 'DL', node1: '0', node2: '5', type: 'DanglingLineEdge' },
+            { svgId: '7', equipmentId: 'NGEN_NHV1', node1: '0', node2: '0', type: 'TwoWtEdge' },
+            { svgId: '8', equipmentId: '3WT', node1: '0', node2: '0', type: 'ThreeWtEdge' },
+        ],
+        textNodes: [{ svgId: '0-textnode', equipmentId: 'VLGEN', vlNode: '0' }],
+    } as DiagramMetadata;
+    const svg = SVG().svg(
+        '<g class="nad-vl-nodes"><g id="0"><circle id="1"/></g></g>' +
+            '<g class="nad-boundary-nodes"><g id="5"><path/></g></g>' +
+            '<g class="nad-branch-edges"><g id="6"><g id="6.1"><polyline/></g></g><g id="7"><g id="7.1"/></g></g>' +
+            '<g class="nad-3wt-edges"><g id="8"><polyline/></g></g>' +
+            '<g class="nad-text-nodes"><foreignObject id="0-textnode"><div><div>VLGEN</div></div></foreignObject></g>'
+    ).node;
+    const getTarget = (selector: string) =>
+        DiagramUtils.getContextMenuTargetFrom(svg.querySelector(selector), metadata);
+    expect(getTarget('[id="1"]')).toEqual({
+        kind: DiagramUtils.ContextMenuKind.BUS_NODE,
+        equipmentId: 'VLGEN_0',
+        svgId: '1',
+        equipmentType: 'BUS',
+        voltageLevelId: 'VLGEN',
+    });
+    expect(getTarget('.nad-boundary-nodes path')).toEqual({
+        kind: DiagramUtils.ContextMenuKind.BOUNDARY_NODE,
+        equipmentId: 'BOUNDARY',
+        svgId: '5',
+        equipmentType: 'DANGLING_LINE',
+    });
+    expect(getTarget('[id="7.1"]')).toEqual({
+        kind: DiagramUtils.ContextMenuKind.BRANCH_EDGE,
+        equipmentId: 'NGEN_NHV1',
+        svgId: '7',
+        equipmentType: 'TWO_WINDINGS_TRANSFORMER',
+    });
+    expect(getTarget('.nad-3wt-edges polyline')?.equipmentType).toBe('THREE_WINDINGS_TRANSFORMER');
+    expect(getTarget('foreignObject div div')).toEqual({
+        kind: DiagramUtils.ContextMenuKind.TEXT_NODE,
+        equipmentId: 'VLGEN',
+        svgId: '0-textnode',
+        equipmentType: 'VOLTAGE_LEVEL',
+    });
+    expect(getTarget('.nad-vl-nodes')).toBeUndefined();
+});
+
+test('getContextMenuTargetFrom diagram', () => {
+    const svg = SVG().svg(
+        readFileSync(join(__dirname, '../../../demo/src/diagram-viewers/data/nad-four-substations.svg'), 'utf8')
+    ).node;
+    const metadata = FourSubstationsMetadata as DiagramMetadata;
+    const getTarget = (selector: string) =>
+        DiagramUtils.getContextMenuTargetFrom(svg.querySelector(selector), metadata);
+    expect(getTarget('.nad-vl-nodes [id="1"]')).toEqual({
+        kind: DiagramUtils.ContextMenuKind.BUS_NODE,
+        equipmentId: 'S1VL1_0',
+        svgId: '1',
+        equipmentType: 'BUS',
+        voltageLevelId: 'S1VL1',
+    });
+    expect(getTarget('.nad-vl-nodes [id="0"]')).toEqual({
+        kind: DiagramUtils.ContextMenuKind.VOLTAGE_LEVEL_NODE,
+        equipmentId: 'S1VL1',
+        svgId: '0',
+        equipmentType: 'VOLTAGE_LEVEL',
+    });
+    expect(getTarget('[id="0-textnode"] div div')?.kind).toBe(DiagramUtils.ContextMenuKind.TEXT_NODE);
+    expect(getTarget('.nad-branch-edges polyline')?.kind).toBe(DiagramUtils.ContextMenuKind.BRANCH_EDGE);
+});
+
 test('getHoverableFrom', () => {
     let hoverableElement = DiagramUtils.getHoverableFrom(getSvgNode());
-    expect(hoverableElement).toBeUndefined();
+    expect(hoverableElement?.id).toBe('0');
     hoverableElement = DiagramUtils.getHoverableFrom(getSvgTextNode());
     expect(hoverableElement).toBeUndefined();
     hoverableElement = DiagramUtils.getHoverableFrom(getSvgLoopEdge());
     expect(hoverableElement).not.toBeUndefined();
 });
 
+test('getNodeEquipmentType', () => {
+    const svg = SVG().svg(
+        '<g class="nad-vl-nodes"><g id="0"/></g><g class="nad-boundary-nodes"><g id="5"/><g id="6"/></g>' +
+            '<g class="nad-3wt-nodes"><g id="7"/></g>'
+    ).node;
+    const edges = [{ svgId: '9', node1: '2', node2: '5', type: 'TieLineEdge' }] as EdgeMetadata[];
+    expect(DiagramUtils.getNodeEquipmentType(svg.querySelector("[id='0']") as Element, edges)).toBe('VOLTAGE_LEVEL');
+    expect(DiagramUtils.getNodeEquipmentType(svg.querySelector("[id='5']") as Element, edges)).toBe('TIE_LINE');
+    expect(DiagramUtils.getNodeEquipmentType(svg.querySelector("[id='6']") as Element, edges)).toBe('DANGLING_LINE');
+    expect(DiagramUtils.getNodeEquipmentType(svg.querySelector("[id='7']") as Element, edges)).toBe(
+        'THREE_WINDINGS_TRANSFORMER'
+    );
+});
+
 test('getTextNodeMoves', () => {
     const textNode: TextNodeMetadata = {
         svgId: '0-textnode',
@@ -364,6 +506,83 @@ test('isVlNodeFictitious', () => {
     expect(DiagramUtils.isVlNodeFictitious('2', nodes)).toBe(true);
 });
 
+test('getEquipmentSvgIds', () => {
+    const metadata = {
+        nodes: [
+            { svgId: '0', equipmentId: 'VLGEN', x: -452.59, y: -274.01 },
+            { svgId: '2', equipmentId: 'VLHV1', x: -245.26, y: 34.3 },
+        ],
+        busNodes: [
+            { svgId: '1', equipmentId: 'VLGEN_0', nbNeighbours: 0, index: 0, vlNode: '0' },
+            { svgId: '3', equipmentId: 'VLHV1_0', nbNeighbours: 0, index: 0, vlNode: '2' },
+        ],
+        edges: [
+            {
+                svgId: '8',
+                equipmentId: 'NGEN_NHV1',
+                node1: '0',
+                node2: '2',
+                busNode1: '1',
+                busNode2: '3',
+                type: 'TwoWtEdge',
+            },
+        ],
+        textNodes: [
+            {
+                svgId: '0-textnode',
+                equipmentId: 'VLGEN',
+                vlNode: '0',
+                shiftX: 100.0,
+                shiftY: -40.0,
+                connectionShiftX: 100.0,
+                connectionShiftY: -15.0,
+            },
+        ],
+    } as DiagramMetadata;
+    expect(Array.from(DiagramUtils.getEquipmentSvgIds(['VLGEN'], metadata))).toEqual(['0', '0-textnode', '0-textedge']);
+    expect(Array.from(DiagramUtils.getEquipmentSvgIds(['VLHV1_0', 'NGEN_NHV1', 'unknown'], metadata))).toEqual([
+        '3',
+        '8',
+    ]);
+    expect(DiagramUtils.getEquipmentSvgIds(['VLGEN'], null).size).toBe(0);
+});
+
+test('getFormattedPolylinePoints', () => {
+    expect(DiagramUtils.getFormattedPolylinePoints([new Point(0, 1.5), new Point(2, 3), new Point(-4, 5.256)])).toBe(
+        '0.00,1.50 2.00,3.00 -4.00,5.26'
+    );
+});
+
+test('isBendableEdge', () => {
+    const edge = { svgId: '8', node1: '0', node2: '2', type: 'LineEdge' } as EdgeMetadata;
+    expect(DiagramUtils.isBendableEdge(edge)).toBe(true);
+    expect(DiagramUtils.isBendableEdge({ ...edge, node2: '0' })).toBe(false);
+    expect(DiagramUtils.isBendableEdge({ ...edge, type: 'ThreeWtEdge' })).toBe(false);
+});
+
+test('getClosestSegmentIndex', () => {
+    const points = [new Point(0, 0), new Point(100, 0), new Point(100, 100)];
+    expect(DiagramUtils.getClosestSegmentIndex(points, new Point(50, 10))).toBe(0);
+    expect(DiagramUtils.getClosestSegmentIndex(points, new Point(90, 60))).toBe(1);
+    expect(DiagramUtils.getClosestSegmentIndex(points, new Point(200, 200))).toBe(1);
+});
+
+test('splitPolyline', () => {
+    let halves = DiagramUtils.splitPolyline([new Point(0, 0), new Point(100, 0), new Point(100, 100)]);
+    expect(halves[0]).toEqual([new Point(0, 0), new Point(100, 0)]);
+    expect(halves[1]).toEqual([new Point(100, 100), new Point(100, 0)]);
+    halves = DiagramUtils.splitPolyline([new Point(0, 0), new Point(0, 20), new Point(100, 20), new Point(100, 40)]);
+    expect(halves[0]).toEqual([new Point(0, 0), new Point(0, 20), new Point(50, 20)]);
+    expect(halves[1]).toEqual([new Point(100, 40), new Point(100, 20), new Point(50, 20)]);
+});
+
+test('isSameViewBox', () => {
+    const viewBox = { x: 0, y: 10, width: 500, height: 400 };
+    expect(DiagramUtils.isSameViewBox(viewBox, { ...viewBox })).toBe(true);
+    expect(DiagramUtils.isSameViewBox(viewBox, { ...viewBox, x: 1 })).toBe(false);
+    expect(DiagramUtils.isSameViewBox(viewBox, undefined)).toBe(false);
+});
+
 function getSvgNode(): SVGGraphicsElement {
     const nodeSvg =
         '<g class="nad-vl-nodes"><g transform="translate(-452.59,-274.01)" id="0">' +
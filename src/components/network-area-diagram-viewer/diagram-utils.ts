@@ -5,8 +5,8 @@
  * file, You can obtain one at http://mozilla.org/MPL/2.0/.
  */
 
-import { Point } from '@svgdotjs/svg.js';
-import { EdgeMetadata, BusNodeMetadata, NodeMetadata, TextNodeMetadata } from './diagram-metadata';
+import { Point, ViewBoxLike } from '@svgdotjs/svg.js';
+import { DiagramMetadata, EdgeMetadata, BusNodeMetadata, NodeMetadata, TextNodeMetadata } from './diagram-metadata';
 
 // node move: original and new position
 export type NODEMOVE = {
@@ -27,6 +27,24 @@ export enum EdgeType {
     UNKNOWN,
 }
 
+export enum ContextMenuKind {
+    VOLTAGE_LEVEL_NODE = 'VOLTAGE_LEVEL_NODE',
+    BUS_NODE = 'BUS_NODE',
+    BRANCH_EDGE = 'BRANCH_EDGE',
+    THREE_WT_EDGE = 'THREE_WT_EDGE',
+    BOUNDARY_NODE = 'BOUNDARY_NODE',
+    TEXT_NODE = 'TEXT_NODE',
+}
+
+// diagram element targeted by a context menu
+export type ContextMenuTarget = {
+    kind: ContextMenuKind;
+    equipmentId: string;
+    svgId: string;
+    equipmentType: string;
+    voltageLevelId?: string; // equipment id of the voltage level of a bus node
+};
+
 const EdgeTypeMapping: { [key: string]: EdgeType } = {
     LineEdge: EdgeType.LINE,
     TwoWtEdge: EdgeType.TWO_WINDINGS_TRANSFORMER,
@@ -57,6 +75,11 @@ export function getFormattedPolyline(startPolyline: Point, middlePolyline: Point
     return polyline;
 }
 
+// format a list of points to polyline string
+export function getFormattedPolylinePoints(points: Point[]): string {
+    return points.map((point) => getFormattedPoint(point)).join(' ');
+}
+
 // transform angle degrees to radians
 export function degToRad(deg: number): number {
     return deg * (Math.PI / 180.0);
@@ -206,14 +229,21 @@ export function getConverterStationPolyline(
 
 // get the draggable element, if present,
 // from the element selected using the mouse
-export function getDraggableFrom(element: SVGElement): SVGElement | undefined {
+// the locked nodes, and their text nodes, are not draggable
+export function getDraggableFrom(element: SVGElement, nodes?: NodeMetadata[]): SVGElement | undefined {
     if (isDraggable(element)) {
-        return element;
+        return isNodeLocked(element.id, nodes) ? undefined : element;
     } else if (element.parentElement) {
-        return getDraggableFrom(element.parentNode as SVGElement);
+        return getDraggableFrom(element.parentNode as SVGElement, nodes);
     }
 }
 
+// check if a node, or the voltage level node of a text node, is locked
+export function isNodeLocked(nodeId: string, nodes: NodeMetadata[] | undefined): boolean {
+    const vlNodeId = getVoltageLevelNodeId(nodeId);
+    return nodes?.find((node) => node.svgId == vlNodeId)?.locked ?? false;
+}
+
 // get the selectable element, if present,
 // from the element selected using the mouse
 export function getSelectableFrom(element: SVGElement): SVGElement | undefined {
@@ -224,6 +254,15 @@ export function getSelectableFrom(element: SVGElement): SVGElement | undefined {
     }
 }
 
+// Get the first edge element that is selectable: branch, three windings transformer or HVDC edge
+export function getSelectableEdgeFrom(element: SVGElement): SVGElement | undefined {
+    if (isSelectableEdge(element)) {
+        return element;
+    } else if (element.parentElement) {
+        return getSelectableEdgeFrom(element.parentNode as SVGElement);
+    }
+}
+
 function isDraggable(element: SVGElement): boolean {
     return (
         hasId(element) && element.parentNode != null && classIsContainerOfDraggables(element.parentNode as SVGElement)
@@ -238,6 +277,15 @@ function isSelectable(element: SVGElement): boolean {
     );
 }
 
+function isSelectableEdge(element: SVGElement): boolean {
+    return (
+        hasId(element) &&
+        element.parentNode != null &&
+        ((element.parentNode as SVGElement).classList.contains('nad-branch-edges') ||
+            (element.parentNode as SVGElement).classList.contains('nad-3wt-edges'))
+    );
+}
+
 function hasId(element: SVGElement): boolean {
     return typeof element.id != 'undefined' && element.id != '';
 }
@@ -252,7 +300,13 @@ function classIsContainerOfDraggables(element: SVGElement): boolean {
 }
 
 function classIsContainerOfHoverables(element: SVGElement): boolean {
-    return element.classList.contains('nad-branch-edges') || element.classList.contains('nad-3wt-edges');
+    return (
+        element.classList.contains('nad-branch-edges') ||
+        element.classList.contains('nad-3wt-edges') ||
+        element.classList.contains('nad-vl-nodes') ||
+        element.classList.contains('nad-boundary-nodes') ||
+        element.classList.contains('nad-3wt-nodes')
+    );
 }
 // get radius of voltage level
 export function getVoltageLevelCircleRadius(nbNeighbours: number, voltageLevelCircleRadius: number): number {
@@ -505,6 +559,20 @@ export function getStringEdgeType(edge: EdgeMetadata): string {
     return EdgeType[getEdgeType(edge)];
 }
 
+// get the equipment type of a voltage level, boundary or three windings transformer node element
+export function getNodeEquipmentType(nodeElement: Element, edges: EdgeMetadata[] | undefined): string {
+    const parentClassList = nodeElement.parentElement?.classList;
+    if (parentClassList?.contains('nad-boundary-nodes')) {
+        // the boundary node type is the type of its edge
+        const edge = edges?.find((edge) => edge.node1 == nodeElement.id || edge.node2 == nodeElement.id);
+        return edge != null ? getStringEdgeType(edge) : EdgeType[EdgeType.DANGLING_LINE];
+    }
+    if (parentClassList?.contains('nad-3wt-nodes')) {
+        return EdgeType[EdgeType.THREE_WINDINGS_TRANSFORMER];
+    }
+    return 'VOLTAGE_LEVEL';
+}
+
 // get moves (original and new position) of position and connetion of text node
 export function getTextNodeMoves(
     textNode: TextNodeMetadata,
@@ -526,3 +594,220 @@ export function isVlNodeFictitious(vlNodeId: string, nodes: NodeMetadata[] | und
     const node: NodeMetadata | undefined = nodes?.find((node) => node.svgId == vlNodeId);
     return node?.fictitious ?? false;
 }
+
+// check if a move changed the position
+export function isMoved(move: NODEMOVE): boolean {
+    return move.xOrig != move.xNew || move.yOrig != move.yNew;
+}
+
+// check if a point is inside the rectangle defined by two opposite corners
+export function isInRectangle(point: Point, corner1: Point, corner2: Point): boolean {
+    return (
+        point.x >= Math.min(corner1.x, corner2.x) &&
+        point.x <= Math.max(corner1.x, corner2.x) &&
+        point.y >= Math.min(corner1.y, corner2.y) &&
+        point.y <= Math.max(corner1.y, corner2.y)
+    );
+}
+
+// get a viewbox centered on a point, with the aspect ratio (width / height) of the displayed SVG
+export function getCenteredViewBox(
+    centre: Point,
+    size: number,
+    aspectRatio: number
+): { x: number; y: number; width: number; height: number } {
+    const width = aspectRatio >= 1 ? size : size * aspectRatio;
+    const height = aspectRatio >= 1 ? size / aspectRatio : size;
+    return { x: centre.x - width / 2, y: centre.y - height / 2, width: width, height: height };
+}
+
+// get the svg ids of the nodes, with their text nodes and text edges, bus nodes and edges of equipments
+export function getEquipmentSvgIds(equipmentIds: string[], diagramMetadata: DiagramMetadata | null): Set<string> {
+    const equipments = new Set<string>(equipmentIds);
+    const svgIds = new Set<string>();
+    diagramMetadata?.nodes
+        .filter((node) => equipments.has(node.equipmentId))
+        .forEach((node) => {
+            svgIds.add(node.svgId);
+            diagramMetadata.textNodes
+                .filter((textNode) => textNode.vlNode == node.svgId)
+                .forEach((textNode) => {
+                    svgIds.add(textNode.svgId);
+                    svgIds.add(getTextEdgeId(node.svgId));
+                });
+        });
+    diagramMetadata?.busNodes
+        .filter((busNode) => equipments.has(busNode.equipmentId))
+        .forEach((busNode) => svgIds.add(busNode.svgId));
+    diagramMetadata?.edges.filter((edge) => equipments.has(edge.equipmentId)).forEach((edge) => svgIds.add(edge.svgId));
+    return svgIds;
+}
+
+// snap a coordinate to a grid
+export function getSnappedCoordinate(coordinate: number, gridSize: number): number {
+    return gridSize > 0 ? Math.round(coordinate / gridSize) * gridSize : coordinate;
+}
+
+// get the closest coordinate within the tolerance, to align a coordinate with, if any
+export function getAlignedCoordinate(coordinate: number, coordinates: number[], tolerance: number): number | null {
+    let alignedCoordinate: number | null = null;
+    coordinates
+        .filter((otherCoordinate) => Math.abs(otherCoordinate - coordinate) <= tolerance)
+        .forEach((otherCoordinate) => {
+            if (
+                alignedCoordinate == null ||
+                Math.abs(otherCoordinate - coordinate) < Math.abs(alignedCoordinate - coordinate)
+            ) {
+                alignedCoordinate = otherCoordinate;
+            }
+        });
+    return alignedCoordinate;
+}
+
+// get the diagram element targeted by a context menu, from the clicked element: a bus node within a voltage level
+// node is targeted, with the voltage level
+export function getContextMenuTargetFrom(
+    element: Element | null,
+    diagramMetadata: DiagramMetadata | null
+): ContextMenuTarget | undefined {
+    if (element == null || diagramMetadata == null) {
+        return undefined;
+    }
+    const parent = element.parentElement;
+    if (element.id != '' && parent != null) {
+        const busNode = diagramMetadata.busNodes.find((busNode) => busNode.svgId == element.id);
+        if (busNode != null) {
+            return {
+                kind: ContextMenuKind.BUS_NODE,
+                equipmentId: busNode.equipmentId,
+                svgId: busNode.svgId,
+                equipmentType: 'BUS',
+                voltageLevelId: diagramMetadata.nodes.find((node) => node.svgId == busNode.vlNode)?.equipmentId,
+            };
+        }
+        if (parent.classList.contains('nad-text-nodes')) {
+            const textNode = diagramMetadata.textNodes.find((textNode) => textNode.svgId == element.id);
+            if (textNode != null) {
+                return {
+                    kind: ContextMenuKind.TEXT_NODE,
+                    equipmentId: textNode.equipmentId,
+                    svgId: textNode.svgId,
+                    equipmentType: 'VOLTAGE_LEVEL',
+                };
+            }
+        }
+        const node = diagramMetadata.nodes.find((node) => node.svgId == element.id);
+        if (node != null && parent.classList.contains('nad-vl-nodes')) {
+            return {
+                kind: ContextMenuKind.VOLTAGE_LEVEL_NODE,
+                equipmentId: node.equipmentId,
+                svgId: node.svgId,
+                equipmentType: 'VOLTAGE_LEVEL',
+            };
+        }
+        if (node != null && parent.classList.contains('nad-boundary-nodes')) {
+            return {
+                kind: ContextMenuKind.BOUNDARY_NODE,
+                equipmentId: node.equipmentId,
+                svgId: node.svgId,
+                equipmentType: getNodeEquipmentType(element, diagramMetadata.edges),
+            };
+        }
+        const edge = diagramMetadata.edges.find((edge) => edge.svgId == element.id);
+        if (edge != null && parent.classList.contains('nad-branch-edges')) {
+            return {
+                kind: ContextMenuKind.BRANCH_EDGE,
+                equipmentId: edge.equipmentId,
+                svgId: edge.svgId,
+                equipmentType: getStringEdgeType(edge),
+            };
+        }
+        if (edge != null && parent.classList.contains('nad-3wt-edges')) {
+            return {
+                kind: ContextMenuKind.THREE_WT_EDGE,
+                equipmentId: edge.equipmentId,
+                svgId: edge.svgId,
+                equipmentType: getStringEdgeType(edge),
+            };
+        }
+    }
+    return getContextMenuTargetFrom(parent, diagramMetadata);
+}
+
+// get the bend points of an edge
+export function getBendPoints(edge: EdgeMetadata): Point[] {
+    return (edge.bendPoints ?? []).map((bendPoint) => new Point(bendPoint.x, bendPoint.y));
+}
+
+// check if bend points can be added to an edge: branch edge between two different nodes
+export function isBendableEdge(edge: EdgeMetadata): boolean {
+    const edgeType = getEdgeType(edge);
+    return edge.node1 != edge.node2 && edgeType != EdgeType.UNKNOWN && edgeType != EdgeType.THREE_WINDINGS_TRANSFORMER;
+}
+
+// get the distance between a point and a segment
+function getDistanceToSegment(point: Point, start: Point, end: Point): number {
+    const length2 = (end.x - start.x) ** 2 + (end.y - start.y) ** 2;
+    const t =
+        length2 == 0
+            ? 0
+            : Math.max(
+                  0,
+                  Math.min(
+                      1,
+                      ((point.x - start.x) * (end.x - start.x) + (point.y - start.y) * (end.y - start.y)) / length2
+                  )
+              );
+    return Math.hypot(point.x - (start.x + t * (end.x - start.x)), point.y - (start.y + t * (end.y - start.y)));
+}
+
+// get the index of the polyline segment closest to a point
+export function getClosestSegmentIndex(points: Point[], point: Point): number {
+    let closestIndex = 0;
+    let closestDistance = Infinity;
+    for (let index = 0; index < points.length - 1; index++) {
+        const distance = getDistanceToSegment(point, points[index], points[index + 1]);
+        if (distance < closestDistance) {
+            closestIndex = index;
+            closestDistance = distance;
+        }
+    }
+    return closestIndex;
+}
+
+// split a polyline at its middle, measured along the polyline: the first half goes from the first point to the
+// middle, the second half from the last point to the middle
+export function splitPolyline(points: Point[]): [Point[], Point[]] {
+    const lengths = points
+        .slice(1)
+        .map((point, index) => Math.hypot(point.x - points[index].x, point.y - points[index].y));
+    let remainingLength = lengths.reduce((totalLength, length) => totalLength + length, 0) / 2;
+    let index = 0;
+    while (index < lengths.length - 1 && remainingLength > lengths[index]) {
+        remainingLength -= lengths[index];
+        index++;
+    }
+    const middle =
+        lengths[index] > 0
+            ? getPointAtDistance(points[index], points[index + 1], remainingLength)
+            : new Point(points[index].x, points[index].y);
+    // the middle may be a point of the polyline
+    const getHalf = (halfPoints: Point[]) =>
+        halfPoints.length > 1 &&
+        halfPoints[halfPoints.length - 1].x == middle.x &&
+        halfPoints[halfPoints.length - 1].y == middle.y
+            ? halfPoints
+            : [...halfPoints, middle];
+    return [getHalf(points.slice(0, index + 1)), getHalf(points.slice(index + 1).reverse())];
+}
+
+// check if two viewboxes are the same
+export function isSameViewBox(viewBox1: ViewBoxLike, viewBox2: ViewBoxLike | undefined): boolean {
+    return (
+        viewBox2 != null &&
+        viewBox1.x == viewBox2.x &&
+        viewBox1.y == viewBox2.y &&
+        viewBox1.width == viewBox2.width &&
+        viewBox1.height == viewBox2.height
+    );
+}
@@ -0,0 +1,149 @@
+/**
+ * Copyright (c) 2024, RTE (http://www.rte-france.com)
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ * SPDX-License-Identifier: MPL-2.0
+ */
+
+import { DiagramMetadata, SvgParametersMetadata } from './diagram-metadata';
+import { DiagnosticKind, DiagnosticSeverity, DiagramValidationError, validateDiagram } from './diagram-validation';
+
+const svgContent =
+    '<svg xmlns="http://www.w3.org/2000/svg">' +
+    '<g class="nad-vl-nodes">' +
+    '<g id="0"><circle id="1" class="nad-busnode"/></g>' +
+    '<g id="2"><circle id="3" class="nad-busnode"/></g>' +
+    '</g>' +
+    '<g class="nad-branch-edges"><g id="8"><g id="8.1"/><g id="8.2"/></g></g>' +
+    '<g class="nad-text-nodes"><foreignObject id="0-textnode"/></g>' +
+    '</svg>';
+
+const svgParameters = {
+    voltageLevelCircleRadius: 30,
+    interAnnulusSpace: 5,
+    transformerCircleRadius: 20,
+    edgesForkAperture: 60,
+    edgesForkLength: 80,
+    arrowShift: 30,
+    arrowLabelShift: 19,
+    converterStationWidth: 70,
+    nodeHollowWidth: 15,
+    unknownBusNodeExtraRadius: 10,
+    edgeNameDisplayed: true,
+    fictitiousVoltageLevelCircleRadius: 15,
+};
+
+function getMetadata(): DiagramMetadata {
+    return {
+        layoutParameters: { textNodeEdgeConnectionYShift: 25 },
+        svgParameters: { ...svgParameters },
+        busNodes: [
+            { svgId: '1', equipmentId: 'VLGEN_0', nbNeighbours: 0, index: 0, vlNode: '0' },
+            { svgId: '3', equipmentId: 'VLHV1_0', nbNeighbours: 0, index: 0, vlNode: '2' },
+        ],
+        nodes: [
+            { svgId: '0', equipmentId: 'VLGEN', x: 0, y: 0 },
+            { svgId: '2', equipmentId: 'VLHV1', x: 100, y: 0 },
+        ],
+        edges: [
+            {
+                svgId: '8',
+                equipmentId: 'NGEN_NHV1',
+                node1: '0',
+                node2: '2',
+                busNode1: '1',
+                busNode2: '3',
+                type: 'TwoWtEdge',
+            },
+        ],
+        textNodes: [
+            {
+                svgId: '0-textnode',
+                equipmentId: 'VLGEN',
+                vlNode: '0',
+                shiftX: 100,
+                shiftY: -40,
+                connectionShiftX: 100,
+                connectionShiftY: -15,
+            },
+        ],
+    };
+}
+
+test('validateDiagram valid', () => {
+    expect(validateDiagram(svgContent, getMetadata())).toEqual([]);
+});
+
+test('validateDiagram unknown ids', () => {
+    const metadata = getMetadata();
+    metadata.edges[0].node2 = '4';
+    metadata.edges[0].busNode1 = '';
+    metadata.busNodes[1].vlNode = '6';
+    metadata.nodes.push({ svgId: '10', equipmentId: 'VLHV2', x: 200, y: 0 });
+    expect(validateDiagram(svgContent, metadata)).toEqual([
+        {
+            kind: DiagnosticKind.UNKNOWN_ID,
+            severity: DiagnosticSeverity.WARNING,
+            id: '10',
+            message: 'svgId 10 not found in the SVG',
+        },
+        {
+            kind: DiagnosticKind.UNKNOWN_ID,
+            severity: DiagnosticSeverity.ERROR,
+            id: '8',
+            message: 'edge 8: unknown node 4',
+        },
+        {
+            kind: DiagnosticKind.UNKNOWN_ID,
+            severity: DiagnosticSeverity.ERROR,
+            id: '3',
+            message: 'element 3: unknown voltage level node 6',
+        },
+    ]);
+});
+
+test('validateDiagram orphan elements and duplicated ids', () => {
+    const metadata = getMetadata();
+    metadata.busNodes = metadata.busNodes.slice(0, 1);
+    metadata.edges[0].busNode2 = '';
+    metadata.textNodes[0].svgId = '2';
+    const diagnostics = validateDiagram(svgContent.replace('<g id="8.2"/>', '<g id="8.1"/>'), metadata);
+    expect(diagnostics.map((diagnostic) => [diagnostic.kind, diagnostic.id])).toEqual([
+        [DiagnosticKind.DUPLICATED_SVG_ID, '8.1'],
+        [DiagnosticKind.DUPLICATED_SVG_ID, '2'],
+        [DiagnosticKind.ORPHAN_ELEMENT, '0-textnode'],
+        [DiagnosticKind.ORPHAN_ELEMENT, '3'],
+    ]);
+});
+
+test('validateDiagram edge types and svg parameters', () => {
+    const metadata = getMetadata();
+    metadata.edges[0].type = 'BentEdge';
+    delete (metadata.svgParameters as Partial<SvgParametersMetadata>).arrowShift;
+    expect(validateDiagram(svgContent, metadata)).toEqual([
+        {
+            kind: DiagnosticKind.UNSUPPORTED_EDGE_TYPE,
+            severity: DiagnosticSeverity.ERROR,
+            id: '8',
+            message: 'edge 8: unsupported type BentEdge',
+        },
+        {
+            kind: DiagnosticKind.MISSING_SVG_PARAMETERS,
+            severity: DiagnosticSeverity.WARNING,
+            id: 'arrowShift',
+            message: 'svg parameter arrowShift missing in the metadata',
+        },
+    ]);
+
+    metadata.svgParameters = undefined as unknown as SvgParametersMetadata;
+    expect(validateDiagram(svgContent, metadata).map((diagnostic) => diagnostic.id)).toEqual(['8', 'svgParameters']);
+});
+
+test('DiagramValidationError', () => {
+    const metadata = getMetadata();
+    metadata.edges[0].node1 = '4';
+    const error = new DiagramValidationError(validateDiagram(svgContent, metadata));
+    expect(error.message).toBe('Invalid network area diagram: UNKNOWN_ID edge 8: unknown node 4');
+    expect(error.diagnostics.length).toBe(1);
+});
@@ -0,0 +1,207 @@
+/**
+ * Copyright (c) 2024, RTE (http://www.rte-france.com)
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ * SPDX-License-Identifier: MPL-2.0
+ */
+
+import * as DiagramUtils from './diagram-utils';
+import { DiagramMetadata, SvgParametersMetadata } from './diagram-metadata';
+
+export enum DiagnosticKind {
+    UNKNOWN_ID = 'UNKNOWN_ID',
+    ORPHAN_ELEMENT = 'ORPHAN_ELEMENT',
+    DUPLICATED_SVG_ID = 'DUPLICATED_SVG_ID',
+    UNSUPPORTED_EDGE_TYPE = 'UNSUPPORTED_EDGE_TYPE',
+    MISSING_SVG_PARAMETERS = 'MISSING_SVG_PARAMETERS',
+}
+
+// an error breaks the viewer interactions, a warning only degrades the display
+export enum DiagnosticSeverity {
+    ERROR = 'ERROR',
+    WARNING = 'WARNING',
+}
+
+export type Diagnostic = {
+    kind: DiagnosticKind;
+    severity: DiagnosticSeverity;
+    id: string; // svg id of the element, or name of the svg parameter
+    message: string;
+};
+
+// error thrown by the viewer in strict mode, when the diagram has errors
+export class DiagramValidationError extends Error {
+    diagnostics: Diagnostic[];
+
+    constructor(diagnostics: Diagnostic[]) {
+        super(
+            'Invalid network area diagram: ' +
+                diagnostics.map((diagnostic) => diagnostic.kind + ' ' + diagnostic.message).join(', ')
+        );
+        this.name = 'DiagramValidationError';
+        this.diagnostics = diagnostics;
+    }
+}
+
+// parameters of the metadata used when moving nodes and edges, the viewer using defaults if missing
+const SVG_PARAMETERS: (keyof SvgParametersMetadata)[] = [
+    'voltageLevelCircleRadius',
+    'interAnnulusSpace',
+    'transformerCircleRadius',
+    'edgesForkAperture',
+    'edgesForkLength',
+    'arrowShift',
+    'arrowLabelShift',
+    'converterStationWidth',
+    'nodeHollowWidth',
+    'unknownBusNodeExtraRadius',
+    'edgeNameDisplayed',
+    'fictitiousVoltageLevelCircleRadius',
+];
+
+// classes of the groups containing the nodes and edges of the diagram
+const CONTAINER_CLASSES = [
+    'nad-vl-nodes',
+    'nad-boundary-nodes',
+    'nad-3wt-nodes',
+    'nad-text-nodes',
+    'nad-branch-edges',
+    'nad-3wt-edges',
+];
+
+function getError(kind: DiagnosticKind, id: string, message: string): Diagnostic {
+    return { kind: kind, severity: DiagnosticSeverity.ERROR, id: id, message: message };
+}
+
+function getWarning(kind: DiagnosticKind, id: string, message: string): Diagnostic {
+    return { kind: kind, severity: DiagnosticSeverity.WARNING, id: id, message: message };
+}
+
+// check the metadata against the SVG: ids unknown in the metadata or in the SVG, SVG elements without metadata,
+// duplicated ids, edge types not supported by the viewer and missing svg parameters
+export function validateDiagram(svgContent: string, diagramMetadata: DiagramMetadata): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    const svg = new DOMParser().parseFromString(svgContent, 'image/svg+xml').documentElement;
+
+    // duplicated ids
+    const svgIds: Set<string> = new Set<string>();
+    svg.querySelectorAll('[id]').forEach((element) => {
+        if (svgIds.has(element.id)) {
+            diagnostics.push(
+                getError(DiagnosticKind.DUPLICATED_SVG_ID, element.id, 'id ' + element.id + ' duplicated in the SVG')
+            );
+        }
+        svgIds.add(element.id);
+    });
+    const metadataIds: Set<string> = new Set<string>();
+    [
+        ...diagramMetadata.nodes,
+        ...diagramMetadata.busNodes,
+        ...diagramMetadata.edges,
+        ...diagramMetadata.textNodes,
+    ].forEach((element) => {
+        if (metadataIds.has(element.svgId)) {
+            diagnostics.push(
+                getError(
+                    DiagnosticKind.DUPLICATED_SVG_ID,
+                    element.svgId,
+                    'svgId ' + element.svgId + ' duplicated in the metadata'
+                )
+            );
+        }
+        metadataIds.add(element.svgId);
+    });
+
+    // ids of the metadata unknown in the SVG
+    metadataIds.forEach((svgId) => {
+        if (!svgIds.has(svgId)) {
+            diagnostics.push(getWarning(DiagnosticKind.UNKNOWN_ID, svgId, 'svgId ' + svgId + ' not found in the SVG'));
+        }
+    });
+
+    // references to unknown nodes and bus nodes
+    const nodeIds: Set<string> = new Set<string>(diagramMetadata.nodes.map((node) => node.svgId));
+    const busNodeIds: Set<string> = new Set<string>(diagramMetadata.busNodes.map((busNode) => busNode.svgId));
+    diagramMetadata.edges.forEach((edge) => {
+        [edge.node1, edge.node2].forEach((nodeId) => {
+            if (!nodeIds.has(nodeId)) {
+                diagnostics.push(
+                    getError(DiagnosticKind.UNKNOWN_ID, edge.svgId, 'edge ' + edge.svgId + ': unknown node ' + nodeId)
+                );
+            }
+        });
+        // the bus node of a disconnected side is empty
+        [edge.busNode1, edge.busNode2].forEach((busNodeId) => {
+            if (busNodeId && !busNodeIds.has(busNodeId)) {
+                diagnostics.push(
+                    getWarning(
+                        DiagnosticKind.UNKNOWN_ID,
+                        edge.svgId,
+                        'edge ' + edge.svgId + ': unknown bus node ' + busNodeId
+                    )
+                );
+            }
+        });
+        const edgeType = DiagramUtils.getEdgeType(edge);
+        if (edgeType == null || edgeType == DiagramUtils.EdgeType.UNKNOWN) {
+            diagnostics.push(
+                getError(
+                    DiagnosticKind.UNSUPPORTED_EDGE_TYPE,
+                    edge.svgId,
+                    'edge ' + edge.svgId + ': unsupported type ' + edge.type
+                )
+            );
+        }
+    });
+    [...diagramMetadata.busNodes, ...diagramMetadata.textNodes].forEach((element) => {
+        if (!nodeIds.has(element.vlNode)) {
+            diagnostics.push(
+                getError(
+                    DiagnosticKind.UNKNOWN_ID,
+                    element.svgId,
+                    'element ' + element.svgId + ': unknown voltage level node ' + element.vlNode
+                )
+            );
+        }
+    });
+
+    // SVG elements without metadata
+    const orphanElements: Element[] = [];
+    CONTAINER_CLASSES.forEach((containerClass) => {
+        svg.querySelectorAll('.' + containerClass).forEach((container) => {
+            orphanElements.push(...Array.from(container.children).filter((element) => element.id != ''));
+        });
+    });
+    orphanElements.push(...Array.from(svg.querySelectorAll('.nad-busnode[id]')));
+    orphanElements
+        .filter((element) => !metadataIds.has(element.id))
+        .forEach((element) => {
+            diagnostics.push(
+                getWarning(
+                    DiagnosticKind.ORPHAN_ELEMENT,
+                    element.id,
+                    'SVG element ' + element.id + ' not found in the metadata'
+                )
+            );
+        });
+
+    // svg parameters
+    if (diagramMetadata.svgParameters == null) {
+        diagnostics.push(
+            getWarning(DiagnosticKind.MISSING_SVG_PARAMETERS, 'svgParameters', 'svg parameters missing in the metadata')
+        );
+    } else {
+        SVG_PARAMETERS.filter((parameter) => diagramMetadata.svgParameters[parameter] == null).forEach((parameter) => {
+            diagnostics.push(
+                getWarning(
+                    DiagnosticKind.MISSING_SVG_PARAMETERS,
+                    parameter,
+                    'svg parameter ' + parameter + ' missing in the metadata'
+                )
+            );
+        });
+    }
+
+    return diagnostics;
+}
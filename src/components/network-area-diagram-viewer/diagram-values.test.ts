@@ -0,0 +1,69 @@
+/**
+ * Copyright (c) 2024, RTE (http://www.rte-france.com)
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ * SPDX-License-Identifier: MPL-2.0
+ */
+
+import {
+    ArrowDirectionClass,
+    formatValue,
+    getArrowDirectionClass,
+    getBusLabel,
+    updateBusLabel,
+    updateEdgeInfos,
+} from './diagram-values';
+
+test('formatValue', () => {
+    expect(formatValue(606.78, 0)).toBe('607');
+    expect(formatValue(-1.234, 1)).toBe('-1.2');
+    expect(formatValue(NaN, 0)).toBe('—');
+    expect(formatValue(undefined, 0)).toBe('—');
+});
+
+test('getArrowDirectionClass', () => {
+    expect(getArrowDirectionClass(10)).toBe(ArrowDirectionClass.OUT);
+    expect(getArrowDirectionClass(0)).toBe(ArrowDirectionClass.OUT);
+    expect(getArrowDirectionClass(-10)).toBe(ArrowDirectionClass.IN);
+    expect(getArrowDirectionClass(NaN)).toBeNull();
+});
+
+test('getBusLabel', () => {
+    expect(getBusLabel(402.14, -2.35)).toBe('402.1 kV / -2.4°');
+    expect(getBusLabel(undefined, NaN)).toBe('— kV / —°');
+    expect(getBusLabel(402.14, undefined, '380.0 kV / 0.0°')).toBe('402.1 kV / 0.0°');
+    expect(getBusLabel(undefined, -2.35, '380.0 kV / 0.0°')).toBe('380.0 kV / -2.4°');
+});
+
+test('updateEdgeInfos', () => {
+    const edgeInfos = document.createElementNS('http://www.w3.org/2000/svg', 'g');
+    edgeInfos.innerHTML =
+        '<g class="nad-active nad-state-out"><g><path class="nad-arrow-in"/><path class="nad-arrow-out"/></g><text>607</text></g>' +
+        '<g class="nad-reactive"><g><path class="nad-arrow-in"/><path class="nad-arrow-out"/></g><text>225</text></g>';
+    updateEdgeInfos(edgeInfos, { equipmentId: 'NGEN_NHV1', side: 1, p: -302.4 });
+    const active = edgeInfos.querySelector('.nad-active');
+    expect(active?.classList.contains(ArrowDirectionClass.IN)).toBe(true);
+    expect(active?.classList.contains(ArrowDirectionClass.OUT)).toBe(false);
+    expect(active?.querySelector('text')?.textContent).toBe('-302');
+    const reactive = edgeInfos.querySelector('.nad-reactive');
+    expect(reactive?.classList.length).toBe(1);
+    expect(reactive?.querySelector('text')?.textContent).toBe('225');
+});
+
+test('updateBusLabel', () => {
+    const textNode = document.createElement('div');
+    textNode.innerHTML =
+        '<div>VLHV1</div><table>' +
+        '<tr><td><div class="nad-legend-square"></div></td><td>380.0 kV / 0.0°</td></tr>' +
+        '<tr><td><div class="nad-legend-square"></div></td><td>380.0 kV / 0.0°</td></tr>' +
+        '</table>';
+    updateBusLabel(textNode, 1, { equipmentId: 'VLHV1_1', v: 402.14, angle: -2.35 });
+    const cells = textNode.querySelectorAll('tr > td:last-child');
+    expect(cells[0].textContent).toBe('380.0 kV / 0.0°');
+    expect(cells[1].textContent).toBe('402.1 kV / -2.4°');
+
+    // partial update, the angle being kept
+    updateBusLabel(textNode, 0, { equipmentId: 'VLHV1_0', v: 395.02 });
+    expect(cells[0].textContent).toBe('395.0 kV / 0.0°');
+});
@@ -0,0 +1,144 @@
+/**
+ * Copyright (c) 2024, RTE (http://www.rte-france.com)
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ * SPDX-License-Identifier: MPL-2.0
+ */
+
+import * as DiagramUtils from './diagram-utils';
+import { EdgeMetadata } from './diagram-metadata';
+
+// values of one side of an edge: side 1 or 2 for branches, 1, 2 or 3 for three windings transformers,
+// the three windings transformer sides following the order of the edges in the metadata
+export interface EdgeValues {
+    equipmentId: string;
+    side: number;
+    p?: number; // active power, in MW
+    q?: number; // reactive power, in MVar
+    i?: number; // current, in A
+}
+
+export interface BusValues {
+    equipmentId: string;
+    v?: number; // voltage, in kV
+    angle?: number; // voltage angle, in degrees
+}
+
+export interface DiagramValues {
+    edges?: EdgeValues[];
+    buses?: BusValues[];
+}
+
+export enum EdgeInfoClass {
+    ACTIVE = 'nad-active',
+    REACTIVE = 'nad-reactive',
+    CURRENT = 'nad-current',
+}
+
+export enum ArrowDirectionClass {
+    IN = 'nad-state-in',
+    OUT = 'nad-state-out',
+}
+
+// same precisions and undefined value symbol as the powsybl-diagram default label provider
+const POWER_PRECISION = 0;
+const CURRENT_PRECISION = 0;
+const VOLTAGE_PRECISION = 1;
+const ANGLE_PRECISION = 1;
+const UNDEFINED_VALUE_SYMBOL = '—';
+const BUS_LABEL_SEPARATOR = ' / ';
+
+// format a value with a precision, undefined or NaN values being replaced by a dash
+export function formatValue(value: number | undefined, precision: number): string {
+    if (value === undefined || isNaN(value)) {
+        return UNDEFINED_VALUE_SYMBOL;
+    }
+    return value.toFixed(precision);
+}
+
+// get the arrow direction class of an edge info: out when the flow leaves the bus
+export function getArrowDirectionClass(value: number | undefined): ArrowDirectionClass | null {
+    if (value === undefined || isNaN(value)) {
+        return null;
+    }
+    return value < 0 ? ArrowDirectionClass.IN : ArrowDirectionClass.OUT;
+}
+
+// get the label of a bus in a text node, the parts of the previous label, if any, being kept for the values not updated
+export function getBusLabel(v: number | undefined, angle: number | undefined, previousLabel?: string): string {
+    const [previousVoltageLabel, previousAngleLabel] = previousLabel?.split(BUS_LABEL_SEPARATOR) ?? [];
+    const voltageLabel =
+        v === undefined && previousVoltageLabel != null
+            ? previousVoltageLabel
+            : formatValue(v, VOLTAGE_PRECISION) + ' kV';
+    const angleLabel =
+        angle === undefined && previousAngleLabel != null
+            ? previousAngleLabel
+            : formatValue(angle, ANGLE_PRECISION) + '°';
+    return voltageLabel + BUS_LABEL_SEPARATOR + angleLabel;
+}
+
+function getEdgeInfoValue(edgeValues: EdgeValues, edgeInfoClass: EdgeInfoClass): [number | undefined, number] {
+    switch (edgeInfoClass) {
+        case EdgeInfoClass.ACTIVE:
+            return [edgeValues.p, POWER_PRECISION];
+        case EdgeInfoClass.REACTIVE:
+            return [edgeValues.q, POWER_PRECISION];
+        case EdgeInfoClass.CURRENT:
+            return [edgeValues.i, CURRENT_PRECISION];
+    }
+}
+
+// update the arrow and the label of the edge infos of a half edge
+export function updateEdgeInfos(edgeInfosElement: Element, edgeValues: EdgeValues) {
+    Object.values(EdgeInfoClass).forEach((edgeInfoClass) => {
+        const edgeInfoElement = edgeInfosElement.querySelector('.' + edgeInfoClass);
+        if (edgeInfoElement == null) {
+            return;
+        }
+        const [value, precision] = getEdgeInfoValue(edgeValues, edgeInfoClass);
+        if (value === undefined) {
+            return; // value not updated
+        }
+        // flip the arrow
+        edgeInfoElement.classList.remove(ArrowDirectionClass.IN, ArrowDirectionClass.OUT);
+        const arrowDirectionClass = getArrowDirectionClass(value);
+        if (arrowDirectionClass != null) {
+            edgeInfoElement.classList.add(arrowDirectionClass);
+        }
+        // update the label
+        const label = edgeInfoElement.querySelector('text');
+        if (label != null) {
+            label.textContent = formatValue(value, precision);
+        }
+    });
+}
+
+// update the label of a bus in the table of a text node, the rows following the bus indexes
+export function updateBusLabel(textNodeElement: Element, busIndex: number, busValues: BusValues) {
+    const busRow = textNodeElement.querySelectorAll('tr').item(busIndex);
+    const labelCell = busRow?.lastElementChild;
+    if (labelCell != null) {
+        labelCell.textContent = getBusLabel(busValues.v, busValues.angle, labelCell.textContent ?? undefined);
+    }
+}
+
+// get the edge infos element of a side of an edge: the half edge of a branch,
+// or the edge of the side of a three windings transformer
+export function getEdgeInfosElement(
+    svg: Element,
+    edges: EdgeMetadata[] | undefined,
+    equipmentId: string,
+    side: number
+): Element | null {
+    const equipmentEdges: EdgeMetadata[] = edges?.filter((edge) => edge.equipmentId == equipmentId) ?? [];
+    if (equipmentEdges.length == 0) {
+        return null;
+    }
+    if (DiagramUtils.getEdgeType(equipmentEdges[0]) == DiagramUtils.EdgeType.THREE_WINDINGS_TRANSFORMER) {
+        const edge: EdgeMetadata | undefined = equipmentEdges[side - 1];
+        return edge != null ? svg.querySelector("[id='" + edge.svgId + "'] > .nad-edge-infos") : null;
+    }
+    return svg.querySelector("[id='" + equipmentEdges[0].svgId + '.' + side + "'] > .nad-edge-infos");
+}
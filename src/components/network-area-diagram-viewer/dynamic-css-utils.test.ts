@@ -0,0 +1,59 @@
+/**
+ * Copyright (c) 2024, RTE (http://www.rte-france.com)
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ * SPDX-License-Identifier: MPL-2.0
+ */
+
+import {
+    BANDED_CSS_RULE,
+    CSS_RULE,
+    getBandIndex,
+    getCssDeclarationText,
+    getCurrentCssDeclaration,
+    THRESHOLD_STATUS,
+    updateDynamicCssRuleStatus,
+} from './dynamic-css-utils';
+
+const bandedRule: BANDED_CSS_RULE = {
+    cssSelector: '.nad-edge-infos text',
+    bands: [
+        { upperBound: 1000, cssDeclaration: { 'font-size': '20px', opacity: '1' } },
+        { upperBound: 3000, cssDeclaration: { 'font-size': '14px', opacity: '0.6' } },
+        { cssDeclaration: { display: 'none' } },
+    ],
+};
+
+test('getBandIndex', () => {
+    expect(getBandIndex(bandedRule.bands, 500)).toBe(0);
+    expect(getBandIndex(bandedRule.bands, 1000)).toBe(1);
+    expect(getBandIndex(bandedRule.bands, 10000)).toBe(2);
+    expect(getBandIndex([{ upperBound: 1000, cssDeclaration: {} }], 2000)).toBe(0);
+});
+
+test('updateDynamicCssRuleStatus', () => {
+    const rule: BANDED_CSS_RULE = { ...bandedRule };
+    expect(updateDynamicCssRuleStatus(rule, 2000)).toBe(true);
+    expect(getCurrentCssDeclaration(rule)).toEqual({ 'font-size': '14px', opacity: '0.6' });
+    expect(updateDynamicCssRuleStatus(rule, 2500)).toBe(false);
+    expect(updateDynamicCssRuleStatus(rule, 500)).toBe(true);
+    expect(getCurrentCssDeclaration(rule)).toEqual({ 'font-size': '20px', opacity: '1' });
+
+    const thresholdRule: CSS_RULE = {
+        cssSelector: '.nad-label-box',
+        belowThresholdCssDeclaration: { display: 'block' },
+        aboveThresholdCssDeclaration: { display: 'none' },
+        threshold: 3000,
+        thresholdStatus: THRESHOLD_STATUS.ABOVE,
+    };
+    expect(updateDynamicCssRuleStatus(thresholdRule, 4000)).toBe(false);
+    expect(updateDynamicCssRuleStatus(thresholdRule, 2000)).toBe(true);
+    expect(thresholdRule.thresholdStatus).toBe(THRESHOLD_STATUS.BELOW);
+    expect(getCurrentCssDeclaration(thresholdRule)).toEqual({ display: 'block' });
+});
+
+test('getCssDeclarationText', () => {
+    expect(getCssDeclarationText({ 'stroke-width': '2', opacity: '0.5' })).toBe('stroke-width: 2; opacity: 0.5;');
+    expect(getCssDeclarationText({})).toBe('');
+});
@@ -18,6 +18,63 @@ export type CSS_RULE = {
     thresholdStatus: THRESHOLD_STATUS;
 };
 
+// zoom band of a dynamic css rule: the declaration applies while the max displayed size is below the upper bound,
+// the last band having no upper bound
+export type CSS_BAND = {
+    upperBound?: number;
+    cssDeclaration: CSS_DECLARATION;
+};
+
+// dynamic css rule with zoom bands ordered by increasing upper bound
+export type BANDED_CSS_RULE = {
+    cssSelector: string;
+    bands: CSS_BAND[];
+    bandIndex?: number;
+};
+
+export type DYNAMIC_CSS_RULE = CSS_RULE | BANDED_CSS_RULE;
+
+export function isBandedCssRule(rule: DYNAMIC_CSS_RULE): rule is BANDED_CSS_RULE {
+    return 'bands' in rule;
+}
+
+// get the index of the band containing the max displayed size
+export function getBandIndex(bands: CSS_BAND[], maxDisplayedSize: number): number {
+    const bandIndex = bands.findIndex((band) => band.upperBound === undefined || maxDisplayedSize < band.upperBound);
+    return bandIndex >= 0 ? bandIndex : bands.length - 1;
+}
+
+// update the threshold status or the band of a rule, returns true if it changed
+export function updateDynamicCssRuleStatus(rule: DYNAMIC_CSS_RULE, maxDisplayedSize: number): boolean {
+    if (isBandedCssRule(rule)) {
+        const bandIndex = getBandIndex(rule.bands, maxDisplayedSize);
+        const changed = rule.bandIndex !== bandIndex;
+        rule.bandIndex = bandIndex;
+        return changed;
+    }
+    const thresholdStatus = maxDisplayedSize < rule.threshold ? THRESHOLD_STATUS.BELOW : THRESHOLD_STATUS.ABOVE;
+    const changed = rule.thresholdStatus !== thresholdStatus;
+    rule.thresholdStatus = thresholdStatus;
+    return changed;
+}
+
+// get the declaration to apply, depending on the threshold status or the band of the rule
+export function getCurrentCssDeclaration(rule: DYNAMIC_CSS_RULE): CSS_DECLARATION {
+    if (isBandedCssRule(rule)) {
+        return rule.bands[rule.bandIndex ?? 0]?.cssDeclaration ?? {};
+    }
+    return rule.thresholdStatus === THRESHOLD_STATUS.BELOW
+        ? rule.belowThresholdCssDeclaration
+        : rule.aboveThresholdCssDeclaration;
+}
+
+// format all the properties of a declaration
+export function getCssDeclarationText(cssDeclaration: CSS_DECLARATION): string {
+    return Object.entries(cssDeclaration)
+        .map(([key, value]) => `${key}: ${value};`)
+        .join(' ');
+}
+
 export const DEFAULT_DYNAMIC_CSS_RULES: CSS_RULE[] = [
     {
         cssSelector: '.nad-edge-infos', // data on edges (arrows and values)
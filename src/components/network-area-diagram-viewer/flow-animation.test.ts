@@ -0,0 +1,29 @@
+/**
+ * Copyright (c) 2024, RTE (http://www.rte-france.com)
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ * SPDX-License-Identifier: MPL-2.0
+ */
+
+import { SVG } from '@svgdotjs/svg.js';
+import { ArrowSpeed } from '../../utils/line-flow';
+import { getFlowSpeed, isFlowReversed } from './flow-animation';
+
+test('getFlowSpeed', () => {
+    expect(getFlowSpeed({ equipmentId: 'L1', loading: 50 })).toBe(ArrowSpeed.MEDIUM);
+    expect(getFlowSpeed({ equipmentId: 'L1', i1: 100, limit1: 900, i2: 700, limit2: 900 })).toBe(ArrowSpeed.FAST);
+    expect(getFlowSpeed({ equipmentId: 'L1', i1: -400, limit1: 900 })).toBe(ArrowSpeed.MEDIUM);
+    expect(getFlowSpeed({ equipmentId: 'L1' })).toBe(ArrowSpeed.STOPPED);
+});
+
+test('isFlowReversed', () => {
+    const svg = SVG().svg(
+        '<g id="8.1"><g class="nad-edge-infos"><g class="nad-active nad-state-in"/></g></g>' +
+            '<g id="8.2"><g class="nad-edge-infos"><g class="nad-active nad-state-out"/></g></g>' +
+            '<g id="9.1"><g class="nad-edge-infos"><g class="nad-active"/></g></g>'
+    ).node;
+    expect(isFlowReversed(svg.querySelector("[id='8.1']") as Element)).toBe(true);
+    expect(isFlowReversed(svg.querySelector("[id='8.2']") as Element)).toBe(false);
+    expect(isFlowReversed(svg.querySelector("[id='9.1']") as Element)).toBeNull();
+});
@@ -0,0 +1,93 @@
+/**
+ * Copyright (c) 2024, RTE (http://www.rte-france.com)
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ * SPDX-License-Identifier: MPL-2.0
+ */
+
+import { ArrowSpeed, getArrowSpeedOfSide } from '../../utils/line-flow';
+import { BranchLoading } from './branch-loading';
+import { ArrowDirectionClass, EdgeInfoClass } from './diagram-values';
+
+export const FLOW_PARTICLES_CLASS = 'nad-flow-particles';
+export const FLOW_REVERSED_CLASS = 'nad-flow-reversed';
+export const FLOW_PAUSED_CLASS = 'nad-flow-paused';
+
+export const FLOW_SPEED_CLASSES: Record<ArrowSpeed, string> = {
+    [ArrowSpeed.STOPPED]: 'nad-flow-stopped',
+    [ArrowSpeed.SLOW]: 'nad-flow-slow',
+    [ArrowSpeed.MEDIUM]: 'nad-flow-medium',
+    [ArrowSpeed.FAST]: 'nad-flow-fast',
+    [ArrowSpeed.CRAZY]: 'nad-flow-crazy',
+};
+
+// duration of the move of the particles by one period of the dash pattern, in seconds
+const FLOW_SPEED_DURATIONS: Record<ArrowSpeed, number> = {
+    [ArrowSpeed.STOPPED]: 0,
+    [ArrowSpeed.SLOW]: 2,
+    [ArrowSpeed.MEDIUM]: 1,
+    [ArrowSpeed.FAST]: 0.5,
+    [ArrowSpeed.CRAZY]: 0.25,
+};
+
+const PARTICLES_PERIOD = 24;
+
+// the particles are dots of a dashed copy of the edge path, the animation moving them from the start of the path
+export const FLOW_ANIMATION_CSS_RULES =
+    '@keyframes nad-flow {from {stroke-dashoffset: ' +
+    PARTICLES_PERIOD +
+    ';} to {stroke-dashoffset: 0;}}\n' +
+    '.' +
+    FLOW_PARTICLES_CLASS +
+    ' {fill: none; stroke: #fff; stroke-width: 3; stroke-linecap: round; stroke-dasharray: 0.1 ' +
+    PARTICLES_PERIOD +
+    '; pointer-events: none; animation: nad-flow 1s linear infinite;}\n' +
+    '.' +
+    FLOW_REVERSED_CLASS +
+    ' {animation-direction: reverse;}\n' +
+    '.' +
+    FLOW_SPEED_CLASSES[ArrowSpeed.STOPPED] +
+    ' {display: none;}\n' +
+    [ArrowSpeed.SLOW, ArrowSpeed.MEDIUM, ArrowSpeed.FAST, ArrowSpeed.CRAZY]
+        .map(
+            (speed) =>
+                '.' + FLOW_SPEED_CLASSES[speed] + ' {animation-duration: ' + FLOW_SPEED_DURATIONS[speed] + 's;}\n'
+        )
+        .join('') +
+    '.' +
+    FLOW_PAUSED_CLASS +
+    ' .' +
+    FLOW_PARTICLES_CLASS +
+    ' {animation-play-state: paused;}\n';
+
+// the currents of the diagram may be signed, unlike the currents of the network map
+function getFlowSpeedOfSide(limit: number | undefined, intensity: number | undefined): ArrowSpeed {
+    return getArrowSpeedOfSide(limit, intensity !== undefined ? Math.abs(intensity) : undefined);
+}
+
+// get the flow speed of a branch, as the speed of the arrows of the network map: the speed of the loading percentage
+// if provided, else the speed of the most loaded side
+export function getFlowSpeed(branchLoading: BranchLoading): ArrowSpeed {
+    if (branchLoading.loading !== undefined) {
+        return getFlowSpeedOfSide(100, branchLoading.loading);
+    }
+    return Math.max(
+        getFlowSpeedOfSide(branchLoading.limit1, branchLoading.i1),
+        getFlowSpeedOfSide(branchLoading.limit2, branchLoading.i2),
+        getFlowSpeedOfSide(branchLoading.limit3, branchLoading.i3)
+    );
+}
+
+// get the direction of the active power of a half edge, from its arrow: true if going to the node,
+// null if no arrow direction
+export function isFlowReversed(halfEdge: Element): boolean | null {
+    const activeInfo = halfEdge.querySelector('.nad-edge-infos .' + EdgeInfoClass.ACTIVE);
+    if (activeInfo?.classList.contains(ArrowDirectionClass.IN)) {
+        return true;
+    }
+    if (activeInfo?.classList.contains(ArrowDirectionClass.OUT)) {
+        return false;
+    }
+    return null;
+}
@@ -0,0 +1,80 @@
+/**
+ * Copyright (c) 2024, RTE (http://www.rte-france.com)
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ * SPDX-License-Identifier: MPL-2.0
+ */
+
+import { Point } from '@svgdotjs/svg.js';
+import {
+    computeForceLayout,
+    getForceLayoutGraph,
+    getInterpolatedPosition,
+    getMeanFixedLinkLength,
+} from './force-layout';
+import { DiagramMetadata } from './diagram-metadata';
+
+test('getForceLayoutGraph', () => {
+    const metadata = {
+        nodes: [
+            { svgId: '0', equipmentId: 'VLGEN', x: 0, y: 0 },
+            { svgId: '2', equipmentId: 'VLHV1', x: 300, y: 0 },
+        ],
+        edges: [
+            { svgId: '4', equipmentId: 'NGEN_NHV1', node1: '0', node2: '2' },
+            { svgId: '5', equipmentId: 'LOOP', node1: '2', node2: '2' },
+            { svgId: '6', equipmentId: 'DANGLING', node1: '2', node2: '9' },
+        ],
+    } as DiagramMetadata;
+    const [positions, links] = getForceLayoutGraph(metadata);
+    expect(positions.size).toBe(2);
+    expect(positions.get('2')).toEqual(new Point(300, 0));
+    expect(links).toEqual([['0', '2']]);
+});
+
+test('getMeanFixedLinkLength', () => {
+    const positions = new Map<string, Point>([
+        ['0', new Point(0, 0)],
+        ['1', new Point(300, 0)],
+        ['2', new Point(300, 400)],
+        ['3', new Point(300, 400)],
+    ]);
+    const links: [string, string][] = [
+        ['0', '1'],
+        ['0', '2'],
+        ['2', '3'],
+    ];
+    expect(getMeanFixedLinkLength(positions, links, new Set<string>(['3']))).toBe(400);
+    expect(getMeanFixedLinkLength(positions, links, new Set<string>(['0', '3']))).toBeNull();
+});
+
+test('computeForceLayout', () => {
+    // two new nodes stacked on a fixed node
+    const positions = new Map<string, Point>([
+        ['0', new Point(0, 0)],
+        ['1', new Point(300, 0)],
+        ['2', new Point(300, 0)],
+        ['3', new Point(300, 0)],
+    ]);
+    const links: [string, string][] = [
+        ['0', '1'],
+        ['1', '2'],
+        ['1', '3'],
+    ];
+    const newPositions = computeForceLayout(positions, links, new Set<string>(['2', '3']), 100, 300);
+    expect(Array.from(newPositions.keys())).toEqual(['2', '3']);
+    const position2 = newPositions.get('2') as Point;
+    const position3 = newPositions.get('3') as Point;
+    // the fixed nodes are not moved, and the movable nodes are spread around their linked node
+    expect(positions.get('1')).toEqual(new Point(300, 0));
+    expect(Math.hypot(position2.x - position3.x, position2.y - position3.y)).toBeGreaterThan(150);
+    expect(Math.hypot(position2.x - 300, position2.y)).toBeGreaterThan(150);
+    expect(Math.hypot(position2.x - 300, position2.y)).toBeLessThan(600);
+    expect(computeForceLayout(positions, links, new Set<string>(['2', '3']), 100, 300)).toEqual(newPositions);
+});
+
+test('getInterpolatedPosition', () => {
+    expect(getInterpolatedPosition(new Point(0, 0), new Point(100, -50), 0.5)).toEqual(new Point(50, -25));
+    expect(getInterpolatedPosition(new Point(0, 0), new Point(100, -50), 1)).toEqual(new Point(100, -50));
+});
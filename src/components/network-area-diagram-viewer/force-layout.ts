@@ -0,0 +1,134 @@
+/**
+ * Copyright (c) 2024, RTE (http://www.rte-france.com)
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ * SPDX-License-Identifier: MPL-2.0
+ */
+
+import { Point } from '@svgdotjs/svg.js';
+import { DiagramMetadata } from './diagram-metadata';
+
+export const FORCE_LAYOUT_ITERATIONS_DEFAULT = 200;
+export const FORCE_LAYOUT_EDGE_LENGTH_DEFAULT = 300;
+
+const MIN_DISTANCE = 0.01;
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+
+// get the positions of the nodes and the links between them, from the metadata
+export function getForceLayoutGraph(diagramMetadata: DiagramMetadata | null): [Map<string, Point>, [string, string][]] {
+    const positions: Map<string, Point> = new Map<string, Point>();
+    diagramMetadata?.nodes.forEach((node) => positions.set(node.svgId, new Point(node.x, node.y)));
+    const links: [string, string][] = [];
+    diagramMetadata?.edges.forEach((edge) => {
+        if (edge.node1 != edge.node2 && positions.has(edge.node1) && positions.has(edge.node2)) {
+            links.push([edge.node1, edge.node2]);
+        }
+    });
+    return [positions, links];
+}
+
+// get the mean length of the links between fixed nodes, used as ideal link length
+export function getMeanFixedLinkLength(
+    positions: Map<string, Point>,
+    links: [string, string][],
+    movableNodes: Set<string>
+): number | null {
+    const lengths = links
+        .filter((link) => !movableNodes.has(link[0]) && !movableNodes.has(link[1]))
+        .map((link) => getDistance(positions.get(link[0]), positions.get(link[1])));
+    return lengths.length > 0 ? lengths.reduce((sum, length) => sum + length, 0) / lengths.length : null;
+}
+
+function getDistance(point1: Point | undefined, point2: Point | undefined): number {
+    return point1 != null && point2 != null ? Math.hypot(point2.x - point1.x, point2.y - point1.y) : 0;
+}
+
+// compute new positions of the movable nodes with a Fruchterman-Reingold force-directed algorithm,
+// the other nodes being fixed: the movable nodes are repulsed by all the nodes and attracted by their linked nodes
+// the algorithm is deterministic, overlapping nodes being spread along a spiral
+export function computeForceLayout(
+    positions: Map<string, Point>,
+    links: [string, string][],
+    movableNodes: Set<string>,
+    iterations: number,
+    edgeLength: number
+): Map<string, Point> {
+    const newPositions: Map<string, Point> = new Map<string, Point>();
+    positions.forEach((position, nodeId) => newPositions.set(nodeId, new Point(position.x, position.y)));
+    const movableIds = Array.from(movableNodes).filter((nodeId) => newPositions.has(nodeId));
+    const nodeIds = Array.from(newPositions.keys());
+    for (let iteration = 0; iteration < iterations; iteration++) {
+        // the temperature limits the displacement, and decreases linearly
+        const temperature = (edgeLength * (iterations - iteration)) / iterations;
+        const displacements: Map<string, Point> = new Map<string, Point>();
+        movableIds.forEach((nodeId) => {
+            const index = nodeIds.indexOf(nodeId);
+            const position = newPositions.get(nodeId) as Point;
+            const displacement = new Point(0, 0);
+            // repulsive forces
+            nodeIds.forEach((otherNodeId, otherIndex) => {
+                if (otherNodeId == nodeId) {
+                    return;
+                }
+                const otherPosition = newPositions.get(otherNodeId) as Point;
+                let dx = position.x - otherPosition.x;
+                let dy = position.y - otherPosition.y;
+                let distance = Math.hypot(dx, dy);
+                if (distance < MIN_DISTANCE) {
+                    // opposite directions for the two nodes of a pair
+                    const angle =
+                        (Math.min(index, otherIndex) * nodeIds.length + Math.max(index, otherIndex)) * GOLDEN_ANGLE +
+                        (index < otherIndex ? 0 : Math.PI);
+                    dx = Math.cos(angle) * MIN_DISTANCE;
+                    dy = Math.sin(angle) * MIN_DISTANCE;
+                    distance = MIN_DISTANCE;
+                }
+                const force = (edgeLength * edgeLength) / distance;
+                displacement.x += (dx / distance) * force;
+                displacement.y += (dy / distance) * force;
+            });
+            displacements.set(nodeId, displacement);
+        });
+        // attractive forces
+        links.forEach(([nodeId1, nodeId2]) => {
+            const position1 = newPositions.get(nodeId1) as Point;
+            const position2 = newPositions.get(nodeId2) as Point;
+            const dx = position1.x - position2.x;
+            const dy = position1.y - position2.y;
+            const distance = Math.hypot(dx, dy);
+            if (distance < MIN_DISTANCE) {
+                return;
+            }
+            const force = (distance * distance) / edgeLength;
+            const displacement1 = displacements.get(nodeId1);
+            if (displacement1 != null) {
+                displacement1.x -= (dx / distance) * force;
+                displacement1.y -= (dy / distance) * force;
+            }
+            const displacement2 = displacements.get(nodeId2);
+            if (displacement2 != null) {
+                displacement2.x += (dx / distance) * force;
+                displacement2.y += (dy / distance) * force;
+            }
+        });
+        // move the nodes, limiting the displacement to the temperature
+        displacements.forEach((displacement, nodeId) => {
+            const length = Math.hypot(displacement.x, displacement.y);
+            if (length > 0) {
+                const position = newPositions.get(nodeId) as Point;
+                const step = Math.min(length, temperature);
+                position.x += (displacement.x / length) * step;
+                position.y += (displacement.y / length) * step;
+            }
+        });
+    }
+    const movedPositions: Map<string, Point> = new Map<string, Point>();
+    movableIds.forEach((nodeId) => movedPositions.set(nodeId, newPositions.get(nodeId) as Point));
+    return movedPositions;
+}
+
+// get the intermediate position between two positions, progress being between 0 and 1
+export function getInterpolatedPosition(start: Point, end: Point, progress: number): Point {
+    return new Point(start.x + (end.x - start.x) * progress, start.y + (end.y - start.y) * progress);
+}
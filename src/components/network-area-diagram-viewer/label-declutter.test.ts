@@ -0,0 +1,44 @@
+/**
+ * Copyright (c) 2024, RTE (http://www.rte-france.com)
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ * SPDX-License-Identifier: MPL-2.0
+ */
+
+import { Point, SVG } from '@svgdotjs/svg.js';
+import { boxesOverlap, declutterLabels, getVoltagePriority, Label } from './label-declutter';
+
+test('boxesOverlap', () => {
+    const box = { x: 0, y: 0, width: 10, height: 10 };
+    expect(boxesOverlap(box, { x: 5, y: 5, width: 10, height: 10 })).toBe(true);
+    expect(boxesOverlap(box, { x: 2, y: 2, width: 2, height: 2 })).toBe(true);
+    expect(boxesOverlap(box, { x: 10, y: 0, width: 10, height: 10 })).toBe(false);
+    expect(boxesOverlap(box, { x: 0, y: 20, width: 10, height: 10 })).toBe(false);
+});
+
+test('getVoltagePriority', () => {
+    const svg = SVG().svg(
+        '<g id="8.1" class="nad-vl300to500-line"><g class="nad-edge-infos"><text/></g></g><g class="other"/>'
+    ).node;
+    expect(getVoltagePriority(svg.querySelector('.nad-edge-infos'))).toBe(500);
+    expect(getVoltagePriority(svg.querySelector('.other'))).toBe(0);
+    expect(getVoltagePriority(null)).toBe(0);
+});
+
+test('declutterLabels', () => {
+    const labels: Label[] = [
+        { id: 'low', box: { x: 5, y: 0, width: 20, height: 10 }, priority: 30, movable: false },
+        { id: 'high', box: { x: 0, y: 0, width: 20, height: 10 }, priority: 500, movable: false },
+        { id: 'text', box: { x: 0, y: 5, width: 20, height: 10 }, priority: 100, movable: true },
+        { id: 'alone', box: { x: 100, y: 100, width: 20, height: 10 }, priority: 0, movable: false },
+    ];
+    let result = declutterLabels(labels, false);
+    expect(result.hidden).toEqual(new Set<string>(['low', 'text']));
+    expect(result.nudges.size).toBe(0);
+
+    result = declutterLabels(labels, true);
+    expect(result.hidden).toEqual(new Set<string>(['low']));
+    // moved just below the highest priority label
+    expect(result.nudges.get('text')).toEqual(new Point(0, 7));
+});
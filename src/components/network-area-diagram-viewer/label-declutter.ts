@@ -0,0 +1,100 @@
+/**
+ * Copyright (c) 2024, RTE (http://www.rte-france.com)
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ * SPDX-License-Identifier: MPL-2.0
+ */
+
+import { Point } from '@svgdotjs/svg.js';
+
+export type LabelBox = {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+};
+
+// label to declutter: edge infos or text node, the movable labels can be nudged instead of hidden
+export type Label = {
+    id: string;
+    box: LabelBox;
+    priority: number;
+    movable: boolean;
+};
+
+export type DeclutterResult = {
+    hidden: Set<string>;
+    nudges: Map<string, Point>;
+};
+
+const NUDGE_GAP = 2;
+const VOLTAGE_PRIORITY_REGEX = /nad-vl\d+to(\d+)/;
+
+// check if two boxes overlap, touching boxes not overlapping
+export function boxesOverlap(box1: LabelBox, box2: LabelBox): boolean {
+    return (
+        box1.x < box2.x + box2.width &&
+        box2.x < box1.x + box1.width &&
+        box1.y < box2.y + box2.height &&
+        box2.y < box1.y + box1.height
+    );
+}
+
+// get the priority of a label from the nominal voltage class of the label or of its ancestors: the upper bound
+// of the voltage range, e.g. 500 for nad-vl300to500
+export function getVoltagePriority(element: Element | null): number {
+    for (let current = element; current != null; current = current.parentElement) {
+        const match = VOLTAGE_PRIORITY_REGEX.exec(current.getAttribute('class') ?? '');
+        if (match != null) {
+            return Number(match[1]);
+        }
+    }
+    return 0;
+}
+
+function translateBox(box: LabelBox, translation: Point): LabelBox {
+    return { x: box.x + translation.x, y: box.y + translation.y, width: box.width, height: box.height };
+}
+
+// get the translations moving a box just outside of another box, by increasing length
+function getNudgeCandidates(box: LabelBox, otherBox: LabelBox): Point[] {
+    return [
+        new Point(0, otherBox.y + otherBox.height + NUDGE_GAP - box.y),
+        new Point(0, otherBox.y - NUDGE_GAP - (box.y + box.height)),
+        new Point(otherBox.x + otherBox.width + NUDGE_GAP - box.x, 0),
+        new Point(otherBox.x - NUDGE_GAP - (box.x + box.width), 0),
+    ].sort(
+        (translation1, translation2) =>
+            Math.hypot(translation1.x, translation1.y) - Math.hypot(translation2.x, translation2.y)
+    );
+}
+
+// greedy declutter: the labels are placed by decreasing priority, a label overlapping an already placed label being
+// nudged if movable and if a free position is found next to the overlapped labels, hidden otherwise
+export function declutterLabels(labels: Label[], nudge: boolean): DeclutterResult {
+    const result: DeclutterResult = { hidden: new Set<string>(), nudges: new Map<string, Point>() };
+    const placedBoxes: LabelBox[] = [];
+    const isFree = (box: LabelBox) => !placedBoxes.some((placedBox) => boxesOverlap(box, placedBox));
+    [...labels]
+        .sort((label1, label2) => label2.priority - label1.priority)
+        .forEach((label) => {
+            if (isFree(label.box)) {
+                placedBoxes.push(label.box);
+                return;
+            }
+            if (nudge && label.movable) {
+                const translation = placedBoxes
+                    .filter((placedBox) => boxesOverlap(label.box, placedBox))
+                    .flatMap((placedBox) => getNudgeCandidates(label.box, placedBox))
+                    .find((candidate) => isFree(translateBox(label.box, candidate)));
+                if (translation != null) {
+                    placedBoxes.push(translateBox(label.box, translation));
+                    result.nudges.set(label.id, translation);
+                    return;
+                }
+            }
+            result.hidden.add(label.id);
+        });
+    return result;
+}
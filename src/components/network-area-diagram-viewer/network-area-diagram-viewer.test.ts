@@ -6,9 +6,25 @@
  * SPDX-License-Identifier: MPL-2.0
  */
 
+import { Svg } from '@svgdotjs/svg.js';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import FourSubstationsMetadata from '../../../demo/src/diagram-viewers/data/nad-four-substations_metadata.json';
+import { DiagramMetadata } from './diagram-metadata';
+import { DiagramValidationError } from './diagram-validation';
 import { NetworkAreaDiagramViewer } from './network-area-diagram-viewer';
 
 describe('Test network-area-diagram-viewer', () => {
+    // restore the mocks of the browser and svg.js features missing in jsdom
+    const originalResizeObserver = global.ResizeObserver;
+    const originalPanZoom = Svg.prototype.panZoom;
+
+    afterEach(() => {
+        global.ResizeObserver = originalResizeObserver;
+        Svg.prototype.panZoom = originalPanZoom;
+        jest.restoreAllMocks();
+    });
+
     // SVG aren't loaded properly in DOM with Jest. Has to be enriched...
     test('nad creation', () => {
         const container: HTMLDivElement = document.createElement('div');
@@ -35,4 +51,137 @@ describe('Test network-area-diagram-viewer', () => {
         expect(nad.getContainer().outerHTML).toBe('<div></div>');
         expect(nad.getSvgContent()).toBe('');
     });
+
+    test('nad destroy and auto resize', () => {
+        const resizeObserver: ResizeObserver = { observe: jest.fn(), unobserve: jest.fn(), disconnect: jest.fn() };
+        let resizeCallback: ResizeObserverCallback | undefined;
+        global.ResizeObserver = jest.fn((callback: ResizeObserverCallback) => {
+            resizeCallback = callback;
+            return resizeObserver;
+        });
+        // the viewBox of the SVG isn't parsed by jsdom
+        jest.spyOn(NetworkAreaDiagramViewer.prototype, 'getDimensionsFromSvg').mockReturnValue({
+            width: 400,
+            height: 200,
+            viewbox: { x: 0, y: 0, width: 800, height: 400 },
+        });
+        // the panzoom plugin isn't registered in the svg.js module loaded by jest
+        Svg.prototype.panZoom = jest.fn().mockReturnThis();
+        const container: HTMLDivElement = document.createElement('div');
+        const onToggleHoverCallback = jest.fn();
+        const nad: NetworkAreaDiagramViewer = new NetworkAreaDiagramViewer(
+            container,
+            '<svg xmlns="http://www.w3.org/2000/svg" width="400" height="200" viewBox="0 0 800 400"></svg>',
+            null,
+            0,
+            0,
+            1000,
+            1000,
+            null,
+            null,
+            null,
+            false,
+            false,
+            null,
+            onToggleHoverCallback
+        );
+        expect(nad.getWidth()).toBe(400);
+        expect(nad.ratio).toBe(2);
+
+        nad.setAutoResize(true);
+        expect(resizeObserver.observe).toHaveBeenCalledWith(container);
+        resizeCallback?.([{ contentRect: { width: 200, height: 50 } } as ResizeObserverEntry], resizeObserver);
+        expect(nad.getWidth()).toBe(200);
+        expect(nad.getHeight()).toBe(50);
+        expect(container.querySelector('svg')?.getAttribute('width')).toBe('200');
+        expect(nad.ratio).toBe(8);
+
+        nad.destroy();
+        expect(resizeObserver.disconnect).toHaveBeenCalled();
+        expect(container.innerHTML).toBe('');
+        expect(nad.getViewBox()).toBeUndefined();
+        expect(nad.onToggleHoverCallback).toBeNull();
+    });
+
+    test('nad export without the overlays', async () => {
+        jest.spyOn(NetworkAreaDiagramViewer.prototype, 'getDimensionsFromSvg').mockReturnValue({
+            width: 400,
+            height: 200,
+            viewbox: { x: 0, y: 0, width: 800, height: 400 },
+        });
+        Svg.prototype.panZoom = jest.fn().mockReturnThis();
+        const nad: NetworkAreaDiagramViewer = new NetworkAreaDiagramViewer(
+            document.createElement('div'),
+            readFileSync(join(__dirname, '../../../demo/src/diagram-viewers/data/nad-four-substations.svg'), 'utf8'),
+            FourSubstationsMetadata as DiagramMetadata,
+            0,
+            0,
+            1000,
+            1000,
+            null,
+            null,
+            null,
+            true,
+            false,
+            null,
+            null
+        );
+        nad.dim(['LINE_S2S3']);
+        nad.highlight(['LINE_S3S4'], 'my-highlight');
+        nad.setFlowAnimation(true, [{ equipmentId: 'LINE_S2S3', loading: 50 }]);
+        nad.setVoltageHeatmap([{ equipmentId: 'S2VL1_0', v: 1.02 }], { tintVoltageLevels: true });
+        const container = nad.getContainer();
+        expect(container.querySelector('.nad-dimmed')).not.toBeNull();
+        expect(container.querySelector('.my-highlight')).not.toBeNull();
+        expect(container.querySelector('.nad-flow-particles')).not.toBeNull();
+        expect(container.querySelector('.nad-heatmap-halo')).not.toBeNull();
+
+        const image = await nad.exportImage({ format: 'svg' });
+        // Blob.text() isn't implemented by jsdom
+        const svgContent = await new Promise<string>((resolve) => {
+            const reader = new FileReader();
+            reader.onload = () => resolve(reader.result as string);
+            reader.readAsText(image);
+        });
+        // parsed as HTML, the jsdom serializer repeating the xmlns attributes of the text nodes
+        const exportedSvg = document.createElement('div');
+        exportedSvg.innerHTML = svgContent;
+        ['nad-dimmed', 'my-highlight', 'nad-flow-particles', 'nad-heatmap-halo'].forEach((overlayClass) =>
+            expect(exportedSvg.querySelector('.' + overlayClass)).toBeNull()
+        );
+        // exported on purpose
+        expect(exportedSvg.querySelector('.nad-heatmap-bus')).not.toBeNull();
+        // the displayed diagram keeps its overlays
+        expect(container.querySelector('.nad-flow-particles')).not.toBeNull();
+    });
+
+    test('nad strict mode', () => {
+        const metadata = {
+            svgParameters: {},
+            busNodes: [],
+            nodes: [{ svgId: '0', equipmentId: 'VLGEN', x: 0, y: 0 }],
+            edges: [{ svgId: '8', equipmentId: 'NGEN_NHV1', node1: '0', node2: '2', type: 'TwoWtEdge' }],
+            textNodes: [],
+        } as unknown as DiagramMetadata;
+        const createViewer = () =>
+            new NetworkAreaDiagramViewer(
+                document.createElement('div'),
+                '<svg xmlns="http://www.w3.org/2000/svg"><g id="0"/><g id="8"/></svg>',
+                metadata,
+                0,
+                0,
+                0,
+                0,
+                null,
+                null,
+                null,
+                false,
+                false,
+                null,
+                null,
+                { strictMode: true }
+            );
+        expect(createViewer).toThrow(DiagramValidationError);
+        expect(createViewer).toThrow('UNKNOWN_ID edge 8: unknown node 2');
+    });
 });
@@ -5,18 +5,144 @@
  * file, You can obtain one at http://mozilla.org/MPL/2.0/.
  */
 
-import { Point, SVG, ViewBoxLike, Svg } from '@svgdotjs/svg.js';
+import { Point, SVG, ViewBoxLike, Svg, Rect, Line, G } from '@svgdotjs/svg.js';
 import '@svgdotjs/svg.panzoom.js';
 import * as DiagramUtils from './diagram-utils';
 import { SvgParameters } from './svg-parameters';
 import { LayoutParameters } from './layout-parameters';
-import { DiagramMetadata, EdgeMetadata, BusNodeMetadata, NodeMetadata, TextNodeMetadata } from './diagram-metadata';
-import { CSS_DECLARATION, CSS_RULE, THRESHOLD_STATUS, DEFAULT_DYNAMIC_CSS_RULES } from './dynamic-css-utils';
+import {
+    DiagramMetadata,
+    EdgeMetadata,
+    BusNodeMetadata,
+    NodeMetadata,
+    PointMetadata,
+    TextNodeMetadata,
+} from './diagram-metadata';
+import {
+    CSS_DECLARATION,
+    DYNAMIC_CSS_RULE,
+    DEFAULT_DYNAMIC_CSS_RULES,
+    getCssDeclarationText,
+    getCurrentCssDeclaration,
+    updateDynamicCssRuleStatus,
+} from './dynamic-css-utils';
 import { debounce } from '@mui/material';
+import { DiagramHistory, HistoryCommand, HistoryCommandType } from './diagram-history';
+import { checkDiagramLayoutVersion, DiagramLayout, DiagramLayoutReport, getDiagramLayout } from './diagram-layout';
+import {
+    DiagramValues,
+    EdgeInfoClass,
+    EdgeValues,
+    getEdgeInfosElement,
+    updateBusLabel,
+    updateEdgeInfos,
+} from './diagram-values';
+import {
+    DeltaClass,
+    DELTA_CSS_RULES,
+    EdgeDelta,
+    formatDelta,
+    getActivePowerDeltas,
+    getFlowChangeClass,
+    getMissingNodes,
+} from './diagram-comparison';
+import { DiagramMinimap } from './diagram-minimap';
+import { ExportImageOptions, getStandaloneSvg, rasterizeSvg } from './diagram-export';
+import {
+    computeForceLayout,
+    FORCE_LAYOUT_EDGE_LENGTH_DEFAULT,
+    FORCE_LAYOUT_ITERATIONS_DEFAULT,
+    getForceLayoutGraph,
+    getInterpolatedPosition,
+    getMeanFixedLinkLength,
+} from './force-layout';
+import { declutterLabels, getVoltagePriority, Label } from './label-declutter';
+import {
+    FLOW_ANIMATION_CSS_RULES,
+    FLOW_PARTICLES_CLASS,
+    FLOW_PAUSED_CLASS,
+    FLOW_REVERSED_CLASS,
+    FLOW_SPEED_CLASSES,
+    getFlowSpeed,
+    isFlowReversed,
+} from './flow-animation';
+import { ArrowSpeed } from '../../utils/line-flow';
+import {
+    BranchLoading,
+    getLoadingZone,
+    LINE_FLOW_ALERT_THRESHOLD_DEFAULT,
+    LOADING_ZONE_CLASSES,
+    LOADING_ZONE_CSS_RULES,
+    LoadingZone,
+} from './branch-loading';
+import { DiagnosticSeverity, DiagramValidationError, validateDiagram } from './diagram-validation';
+import { getDiagramMerge, getDiagramRemoval, setNewSvgIds } from './diagram-merge';
+import { DiagramPlayback, OnPlaybackTimestampCallbackType, TimedDiagramValues } from './diagram-playback';
+import {
+    BusVoltage,
+    drawHeatmapLegend,
+    getHeatmapColor,
+    HEATMAP_BUS_CLASS,
+    HEATMAP_COLOR_PROPERTY,
+    HEATMAP_COLORS_DEFAULT,
+    HEATMAP_CSS_RULES,
+    HEATMAP_HALO_CLASS,
+    HEATMAP_MAX_DEFAULT,
+    HEATMAP_MIN_DEFAULT,
+    VoltageHeatmapOptions,
+} from './voltage-heatmap';
 
 type DIMENSIONS = { width: number; height: number; viewbox: VIEWBOX };
 type VIEWBOX = { x: number; y: number; width: number; height: number };
 
+const SELECTED_NODE_CLASS = 'nad-selected-node';
+const SELECTED_EDGE_CLASS = 'nad-selected-edge';
+const FOCUSED_CLASS = 'nad-focused';
+const DIMMED_CLASS = 'nad-dimmed';
+const DECLUTTERED_CLASS = 'nad-decluttered';
+const BEND_POINT_CLASS = 'nad-bend-point';
+const LOCKED_NODE_CLASS = 'nad-locked-node';
+const VIEWER_CSS_RULES =
+    '.' +
+    SELECTED_NODE_CLASS +
+    ' {filter: drop-shadow(0 0 8px #1e90ff);}\n' +
+    '.' +
+    SELECTED_EDGE_CLASS +
+    ' {filter: drop-shadow(0 0 6px #1e90ff);}\n' +
+    '.' +
+    FOCUSED_CLASS +
+    ' {filter: drop-shadow(0 0 12px #ff9800);}\n' +
+    '.' +
+    DIMMED_CLASS +
+    ' {opacity: 0.2;}\n' +
+    '.' +
+    DECLUTTERED_CLASS +
+    ' {visibility: hidden;}\n' +
+    '.' +
+    BEND_POINT_CLASS +
+    ' {fill: #fff; stroke: #1e90ff; stroke-width: 2; vector-effect: non-scaling-stroke; cursor: move;}\n' +
+    '.' +
+    LOCKED_NODE_CLASS +
+    ' {filter: drop-shadow(0 0 4px #757575); cursor: not-allowed;}\n' +
+    LOADING_ZONE_CSS_RULES +
+    DELTA_CSS_RULES +
+    FLOW_ANIMATION_CSS_RULES +
+    HEATMAP_CSS_RULES;
+
+const FOCUS_VIEWBOX_SIZE_DEFAULT = 1500;
+const FOCUS_ANIMATION_DURATION_DEFAULT = 500;
+const FOCUS_HIGHLIGHT_DURATION_DEFAULT = 3000;
+const LAYOUT_ANIMATION_DURATION_DEFAULT = 500;
+const GRID_SIZE_DEFAULT = 50;
+const ALIGNMENT_TOLERANCE = 10; // in pixels
+const EXPORT_MARGIN = 20;
+const MINIMAP_WIDTH_DEFAULT = 200;
+const MINIMAP_HEIGHT_DEFAULT = 150;
+const DECLUTTER_DEBOUNCE_DELAY = 100; // after the level of detail update
+const LOADING_ZONE_PRIORITY = 1000;
+const HEATMAP_HALO_RADIUS_FACTOR = 1.5;
+const BEND_POINT_RADIUS = 8;
+
 export type OnMoveNodeCallbackType = (
     equipmentId: string,
     nodeId: string,
@@ -26,6 +152,23 @@ export type OnMoveNodeCallbackType = (
     yOrig: number
 ) => void;
 
+export type OnMoveEdgeCallbackType = (
+    equipmentId: string,
+    edgeId: string,
+    bendPoints: PointMetadata[],
+    bendPointsOrig: PointMetadata[]
+) => void;
+
+export type OnContextMenuCallbackType = (
+    kind: DiagramUtils.ContextMenuKind,
+    equipmentId: string,
+    svgId: string,
+    equipmentType: string,
+    screenX: number,
+    screenY: number,
+    voltageLevelId: string | undefined // equipment id of the voltage level, for a bus node
+) => void;
+
 export type OnMoveTextNodeCallbackType = (
     equipmentId: string,
     vlNodeId: string,
@@ -40,14 +183,68 @@ export type OnMoveTextNodeCallbackType = (
     connectionShiftYOrig: number
 ) => void;
 
+export type FocusOnEquipmentOptions = {
+    viewBoxSize?: number; // minimal size of the displayed area around the equipment
+    animationDuration?: number; // in ms, 0 to move the view without animation
+    highlightDuration?: number; // in ms
+};
+
+export type ForceLayoutOptions = {
+    iterations?: number;
+    edgeLength?: number; // ideal edge length, by default the mean length of the edges between fixed nodes
+    animationDuration?: number; // in ms, 0 to move the nodes without animation
+};
+
+export type DeclutterOptions = {
+    nudgeTextNodes?: boolean; // move the overlapping text nodes next to the other labels, instead of hiding them
+    getLabelPriority?: (element: Element) => number; // by default, from the loading zone and the nominal voltage
+};
+
+// bend point being dragged, with the bend points of its edge before the drag
+type BendPointDrag = {
+    edge: EdgeMetadata;
+    index: number;
+    handle: SVGElement;
+    bendPointsOrig: PointMetadata[];
+};
+
+export type NodeMove = {
+    equipmentId: string;
+    nodeId: string;
+    x: number;
+    y: number;
+    xOrig: number;
+    yOrig: number;
+};
+
+export type OnMoveNodesCallbackType = (nodeMoves: NodeMove[]) => void;
+
 export type OnSelectNodeCallbackType = (equipmentId: string, nodeId: string) => void;
+
+export type OnSelectEdgeCallbackType = (edge: EdgeMetadata, equipmentType: string) => void;
+
+// equipment ids of the selected nodes and edges
+export type DiagramSelection = {
+    nodes: string[];
+    edges: string[];
+};
 export type OnToggleNadHoverCallbackType = (
     hovered: boolean,
     mousePosition: Point | null,
     equipmentId: string,
-    equipmentType: string
+    equipmentType: string,
+    busNode?: BusNodeMetadata | null // hovered bus node, if the hovered element is a bus of a voltage level node
 ) => void;
 
+// optional callbacks and flags of the viewer, after the positional constructor parameters
+export type NetworkAreaDiagramViewerOptions = {
+    onMoveNodesCallback?: OnMoveNodesCallbackType | null; // called once for a group move, instead of the node move callback
+    onContextMenuCallback?: OnContextMenuCallbackType | null;
+    onSelectEdgeCallback?: OnSelectEdgeCallbackType | null;
+    onMoveEdgeCallback?: OnMoveEdgeCallbackType | null;
+    strictMode?: boolean; // throw a DiagramValidationError if the metadata doesn't match the SVG
+};
+
 export class NetworkAreaDiagramViewer {
     container: HTMLElement;
     svgContent: string;
@@ -71,8 +268,44 @@ export class NetworkAreaDiagramViewer {
     onMoveNodeCallback: OnMoveNodeCallbackType | null;
     onMoveTextNodeCallback: OnMoveTextNodeCallbackType | null;
     onSelectNodeCallback: OnSelectNodeCallbackType | null;
-    dynamicCssRules: CSS_RULE[];
+    dynamicCssRules: DYNAMIC_CSS_RULE[];
     onToggleHoverCallback: OnToggleNadHoverCallbackType | null;
+    history: DiagramHistory = new DiagramHistory();
+    selectedNodes: Set<string> = new Set<string>();
+    draggedNodeIds: string[] = [];
+    selectionStart: Point | null = null;
+    selectionRectangle: Rect | null = null;
+    selectionClickedNode: SVGGraphicsElement | null = null;
+    onMoveNodesCallback: OnMoveNodesCallbackType | null;
+    focusedElements: Element[] = [];
+    focusTimeout: ReturnType<typeof setTimeout> | undefined;
+    highlightedElements: Map<Element, Set<string>> = new Map<Element, Set<string>>();
+    layoutAnimationFrame: number | null = null;
+    snappingEnabled: boolean = false;
+    gridSize: number = GRID_SIZE_DEFAULT;
+    alignmentGuides: Line[] = [];
+    minimap: DiagramMinimap | null = null;
+    minimapObserver: MutationObserver | null = null;
+    onContextMenuCallback: OnContextMenuCallbackType | null;
+    onSelectEdgeCallback: OnSelectEdgeCallbackType | null;
+    selectedEdge: EdgeMetadata | null = null;
+    declutterOptions: DeclutterOptions | null = null;
+    declutterObserver: MutationObserver | null = null;
+    declutterNudges: Set<string> = new Set<string>(); // text nodes displayed away from their position by the declutter
+    onMoveEdgeCallback: OnMoveEdgeCallbackType | null;
+    bendPointHandles: G | null = null;
+    draggedBendPoint: BendPointDrag | null = null;
+    readOnly: boolean = false;
+    linkedViewers: NetworkAreaDiagramViewer[] = [];
+    viewBoxLinkObserver: MutationObserver | null = null;
+    flowSpeeds: Map<string, ArrowSpeed> | null = null;
+    levelOfDetailObserver: MutationObserver | null = null;
+    levelOfDetailUpdate: ReturnType<typeof debounce> | null = null;
+    resizeObserver: ResizeObserver | null = null;
+    heatmapOptions: VoltageHeatmapOptions | null = null;
+    heatmapLegend: Svg | null = null;
+    heatmapVoltages: Map<string, number> = new Map<string, number>();
+    playback: DiagramPlayback | null = null;
 
     constructor(
         container: HTMLElement,
@@ -87,9 +320,19 @@ export class NetworkAreaDiagramViewer {
         onSelectNodeCallback: OnSelectNodeCallbackType | null,
         enableNodeInteraction: boolean,
         enableLevelOfDetail: boolean,
-        customDynamicCssRules: CSS_RULE[] | null,
-        onToggleHoverCallback: OnToggleNadHoverCallbackType | null
+        customDynamicCssRules: DYNAMIC_CSS_RULE[] | null,
+        onToggleHoverCallback: OnToggleNadHoverCallbackType | null,
+        options?: NetworkAreaDiagramViewerOptions
     ) {
+        // in strict mode, the diagram is not displayed if its metadata doesn't match the SVG
+        if (options?.strictMode && diagramMetadata !== null) {
+            const errors = validateDiagram(svgContent, diagramMetadata).filter(
+                (diagnostic) => diagnostic.severity == DiagnosticSeverity.ERROR
+            );
+            if (errors.length > 0) {
+                throw new DiagramValidationError(errors);
+            }
+        }
         this.container = container;
         this.svgContent = svgContent;
         this.diagramMetadata = diagramMetadata;
@@ -113,6 +356,22 @@ export class NetworkAreaDiagramViewer {
         this.onMoveTextNodeCallback = onMoveTextNodeCallback;
         this.onSelectNodeCallback = onSelectNodeCallback;
         this.onToggleHoverCallback = onToggleHoverCallback;
+        this.onMoveNodesCallback = options?.onMoveNodesCallback ?? null;
+        this.onContextMenuCallback = options?.onContextMenuCallback ?? null;
+        this.onSelectEdgeCallback = options?.onSelectEdgeCallback ?? null;
+        this.onMoveEdgeCallback = options?.onMoveEdgeCallback ?? null;
+        this.diagramMetadata?.nodes
+            .filter((node) => node.locked)
+            .forEach((node) => {
+                this.container.querySelector("[id='" + node.svgId + "']")?.classList.add(LOCKED_NODE_CLASS);
+            });
+        // the edges are drawn without their bend points in the SVG
+        this.diagramMetadata?.edges
+            .filter((edge) => DiagramUtils.getBendPoints(edge).length > 0)
+            .forEach((edge) => this.redrawEdge(edge));
+        if (enableNodeInteraction) {
+            this.drawBendPointHandles();
+        }
     }
 
     public setWidth(width: number): void {
@@ -163,34 +422,1148 @@ export class NetworkAreaDiagramViewer {
         return this.svgContent;
     }
 
-    public getViewBox(): ViewBoxLike | undefined {
-        return this.svgDraw?.viewbox();
+    public getViewBox(): ViewBoxLike | undefined {
+        return this.svgDraw?.viewbox();
+    }
+
+    public setViewBox(viewBox: ViewBoxLike): void {
+        this.svgDraw?.viewbox(viewBox);
+    }
+
+    public getDynamicCssRules() {
+        return this.dynamicCssRules;
+    }
+
+    private getNodeIdFromEquipmentId(equipmentId: string) {
+        const node: NodeMetadata | undefined = this.diagramMetadata?.nodes.find(
+            (node) => node.equipmentId == equipmentId
+        );
+        return node?.svgId || null;
+    }
+
+    // lock or unlock a node: a locked node, and its text node, cannot be moved with the mouse or by the force layout
+    public setNodeLocked(equipmentId: string, locked: boolean): void {
+        const node: NodeMetadata | undefined = this.diagramMetadata?.nodes.find(
+            (node) => node.equipmentId == equipmentId
+        );
+        if (node != null) {
+            node.locked = locked;
+            this.container.querySelector("[id='" + node.svgId + "']")?.classList.toggle(LOCKED_NODE_CLASS, locked);
+        }
+    }
+
+    // in read-only mode, the nodes, text nodes and edge bend points cannot be moved, panning, zooming, hovering
+    // and selecting remaining possible
+    public setReadOnly(readOnly: boolean): void {
+        this.readOnly = readOnly;
+        if (this.bendPointHandles != null) {
+            this.drawBendPointHandles();
+        }
+    }
+
+    public isReadOnly(): boolean {
+        return this.readOnly;
+    }
+
+    public moveNodeToCoordinates(equipmentId: string, x: number, y: number) {
+        const nodeId = this.getNodeIdFromEquipmentId(equipmentId);
+        if (nodeId != null) {
+            const elemToMove: SVGElement | null = this.container.querySelector('[id="' + nodeId + '"]');
+            if (elemToMove) {
+                const newPosition = new Point(x, y);
+                this.onDragStart(elemToMove);
+                this.onDragEnd(newPosition, false, false);
+            }
+        }
+    }
+
+    // center the view on a node, bus node or edge, and highlight it temporarily
+    // returns false if the equipment is not found in the diagram
+    public focusOnEquipment(equipmentId: string, options?: FocusOnEquipmentOptions): boolean {
+        const focusData = this.getEquipmentFocusData(equipmentId);
+        if (focusData == null || this.svgDraw == null) {
+            return false;
+        }
+        // move the view
+        const viewBox = DiagramUtils.getCenteredViewBox(
+            focusData.position,
+            Math.max(options?.viewBoxSize ?? FOCUS_VIEWBOX_SIZE_DEFAULT, 1.5 * focusData.size),
+            this.getHeight() > 0 ? this.getWidth() / this.getHeight() : 1
+        );
+        const animationDuration = options?.animationDuration ?? FOCUS_ANIMATION_DURATION_DEFAULT;
+        if (animationDuration > 0) {
+            this.svgDraw.animate(animationDuration).viewbox(viewBox.x, viewBox.y, viewBox.width, viewBox.height);
+        } else {
+            this.setViewBox(viewBox);
+        }
+        // highlight the equipment
+        this.clearFocusHighlight();
+        focusData.svgIds.forEach((svgId) => {
+            const element = this.container.querySelector("[id='" + svgId + "']");
+            if (element != null) {
+                element.classList.add(FOCUSED_CLASS);
+                this.focusedElements.push(element);
+            }
+        });
+        this.focusTimeout = setTimeout(
+            () => this.clearFocusHighlight(),
+            options?.highlightDuration ?? FOCUS_HIGHLIGHT_DURATION_DEFAULT
+        );
+        return true;
+    }
+
+    // add a CSS class to the nodes, bus nodes, edges and text nodes of the equipments
+    public highlight(equipmentIds: string[], styleName: string): void {
+        DiagramUtils.getEquipmentSvgIds(equipmentIds, this.diagramMetadata).forEach((svgId) =>
+            this.addHighlightClass(svgId, styleName)
+        );
+    }
+
+    // dim all the nodes, edges and text nodes, except the ones of the equipments
+    public dim(allExcept: string[]): void {
+        const keptSvgIds = DiagramUtils.getEquipmentSvgIds(allExcept, this.diagramMetadata);
+        // a dimmed voltage level node would dim its bus nodes
+        this.diagramMetadata?.busNodes
+            .filter((busNode) => keptSvgIds.has(busNode.svgId))
+            .forEach((busNode) => keptSvgIds.add(busNode.vlNode));
+        DiagramUtils.getEquipmentSvgIds(
+            this.diagramMetadata?.nodes.map((node) => node.equipmentId) ?? [],
+            this.diagramMetadata
+        ).forEach((svgId) => {
+            if (!keptSvgIds.has(svgId)) {
+                this.addHighlightClass(svgId, DIMMED_CLASS);
+            }
+        });
+        this.diagramMetadata?.edges
+            .filter((edge) => !keptSvgIds.has(edge.svgId))
+            .forEach((edge) => this.addHighlightClass(edge.svgId, DIMMED_CLASS));
+    }
+
+    // remove the CSS classes added by highlight and dim
+    public clearHighlights(): void {
+        this.highlightedElements.forEach((classNames, element) => {
+            classNames.forEach((className) => element.classList.remove(className));
+        });
+        this.highlightedElements.clear();
+    }
+
+    private addHighlightClass(svgId: string, className: string) {
+        const element = this.container.querySelector("[id='" + svgId + "']");
+        if (element != null) {
+            element.classList.add(className);
+            const classNames = this.highlightedElements.get(element) ?? new Set<string>();
+            classNames.add(className);
+            this.highlightedElements.set(element, classNames);
+        }
+    }
+
+    private clearFocusHighlight() {
+        clearTimeout(this.focusTimeout);
+        this.focusedElements.forEach((element) => element.classList.remove(FOCUSED_CLASS));
+        this.focusedElements = [];
+    }
+
+    // get position, size and svg ids of an equipment, looking for nodes, then bus nodes, then edges
+    private getEquipmentFocusData(equipmentId: string): { position: Point; size: number; svgIds: string[] } | null {
+        const node: NodeMetadata | undefined = this.diagramMetadata?.nodes.find(
+            (node) => node.equipmentId == equipmentId
+        );
+        if (node != null) {
+            return { position: new Point(node.x, node.y), size: 0, svgIds: [node.svgId] };
+        }
+        const busNode: BusNodeMetadata | undefined = this.diagramMetadata?.busNodes.find(
+            (busNode) => busNode.equipmentId == equipmentId
+        );
+        const vlNode: NodeMetadata | undefined = this.diagramMetadata?.nodes.find(
+            (node) => node.svgId == busNode?.vlNode
+        );
+        if (busNode != null && vlNode != null) {
+            return { position: new Point(vlNode.x, vlNode.y), size: 0, svgIds: [busNode.svgId] };
+        }
+        const edge: EdgeMetadata | undefined = this.diagramMetadata?.edges.find(
+            (edge) => edge.equipmentId == equipmentId
+        );
+        if (edge != null) {
+            const edgePoints: Point[] = (this.diagramMetadata?.nodes ?? [])
+                .filter((node) => node.svgId == edge.node1 || node.svgId == edge.node2)
+                .map((node) => new Point(node.x, node.y));
+            if (edgePoints.length > 0) {
+                const position = DiagramUtils.getMidPosition(edgePoints[0], edgePoints[edgePoints.length - 1]);
+                const size = Math.hypot(
+                    edgePoints[0].x - edgePoints[edgePoints.length - 1].x,
+                    edgePoints[0].y - edgePoints[edgePoints.length - 1].y
+                );
+                return { position: position, size: size, svgIds: [edge.svgId] };
+            }
+        }
+        return null;
+    }
+
+    // get the current node positions, text node shifts and connection shifts
+    public exportLayout(): DiagramLayout {
+        return getDiagramLayout(this.diagramMetadata);
+    }
+
+    // move the nodes and text nodes listed in the positions document, without calling the move callbacks
+    // the undo history is cleared, the previous moves not being relative to the layout positions
+    // throws an UnsupportedLayoutVersionError if the document has another version
+    public applyLayout(layout: DiagramLayout): DiagramLayoutReport {
+        checkDiagramLayoutVersion(layout);
+        const report: DiagramLayoutReport = { unknownNodes: [], unknownTextNodes: [] };
+        const nodePositions: Map<string, Point> = new Map<string, Point>();
+        layout.nodes.forEach((nodeLayout) => {
+            const nodeId = this.getNodeIdFromEquipmentId(nodeLayout.equipmentId);
+            if (nodeId != null && this.container.querySelector("[id='" + nodeId + "']") != null) {
+                nodePositions.set(nodeId, new Point(nodeLayout.x, nodeLayout.y));
+            } else {
+                report.unknownNodes.push(nodeLayout.equipmentId);
+            }
+        });
+        this.moveNodesToPositions(nodePositions, false);
+        layout.textNodes.forEach((textNodeLayout) => {
+            const textNode: TextNodeMetadata | undefined = this.diagramMetadata?.textNodes.find(
+                (textNode) => textNode.equipmentId == textNodeLayout.equipmentId
+            );
+            if (textNode != null && this.container.querySelector("[id='" + textNode.svgId + "']") != null) {
+                this.moveTextNodeToShift(
+                    textNode.svgId,
+                    new Point(textNodeLayout.shiftX, textNodeLayout.shiftY),
+                    new Point(textNodeLayout.connectionShiftX, textNodeLayout.connectionShiftY),
+                    false
+                );
+            } else {
+                report.unknownTextNodes.push(textNodeLayout.equipmentId);
+            }
+        });
+        this.history.clear();
+        return report;
+    }
+
+    // update in place the edge infos and the bus labels of the diagram, values not provided being left unchanged
+    public updateValues(values: DiagramValues): void {
+        values.edges?.forEach((edgeValues) => {
+            const edgeInfosElement = getEdgeInfosElement(
+                this.container,
+                this.diagramMetadata?.edges,
+                edgeValues.equipmentId,
+                edgeValues.side
+            );
+            if (edgeInfosElement != null) {
+                updateEdgeInfos(edgeInfosElement, edgeValues);
+            }
+        });
+        values.buses?.forEach((busValues) => {
+            const busNode: BusNodeMetadata | undefined = this.diagramMetadata?.busNodes.find(
+                (busNode) => busNode.equipmentId == busValues.equipmentId
+            );
+            if (busNode == null) {
+                return;
+            }
+            const textNodeElement = this.container.querySelector(
+                "[id='" + DiagramUtils.getTextNodeId(busNode.vlNode) + "']"
+            );
+            if (textNodeElement != null) {
+                updateBusLabel(textNodeElement, busNode.index, busValues);
+            }
+        });
+        // the flow directions may have changed
+        this.drawFlowParticles();
+    }
+
+    // merge a diagram fragment, e.g. the neighbourhood of some voltage levels, into the diagram: the nodes, text nodes
+    // and edges not in the diagram are added, the nodes in both being identified by their equipment ids and used to
+    // place the added nodes; the added elements get new SVG ids, not used in the diagram
+    // returns the equipment ids of the added nodes, null if no diagram is displayed
+    public addDiagramFragment(svgFragment: string, fragmentMetadata: DiagramMetadata): string[] | null {
+        const drawnSvg = this.svgDraw?.node.firstElementChild;
+        if (this.diagramMetadata == null || drawnSvg == null) {
+            return null;
+        }
+        const merge = getDiagramMerge(
+            this.diagramMetadata,
+            fragmentMetadata,
+            (svgId) => this.container.querySelector("[id='" + svgId + "']") != null
+        );
+        // add the SVG elements, with their new ids, to the groups of the diagram with the same class, e.g. nad-vl-nodes
+        const fragment = new DOMParser().parseFromString(svgFragment, 'image/svg+xml').documentElement;
+        merge.svgIds.forEach((svgId) => {
+            const element = fragment.querySelector("[id='" + svgId + "']");
+            const groupClass = element?.parentElement?.classList.item(0);
+            if (element == null || groupClass == null) {
+                return;
+            }
+            let group = drawnSvg.querySelector(':scope > .' + groupClass);
+            if (group == null) {
+                group = document.createElementNS('http://www.w3.org/2000/svg', 'g');
+                group.setAttribute('class', groupClass);
+                drawnSvg.appendChild(group);
+            }
+            const importedElement = document.importNode(element, true);
+            setNewSvgIds(importedElement, merge.newSvgIds);
+            group.appendChild(importedElement);
+        });
+        this.diagramMetadata.nodes.push(...merge.nodes);
+        this.diagramMetadata.busNodes.push(...merge.busNodes);
+        this.diagramMetadata.edges.push(...merge.edges);
+        this.diagramMetadata.textNodes.push(...merge.textNodes);
+        // redraw the added edges by moving their nodes: the added nodes to their positions in the diagram,
+        // the first node of the edges between nodes already in the diagram to its current position
+        const positions: Map<string, Point> = new Map<string, Point>(merge.positions);
+        merge.edges
+            .filter((edge) => !positions.has(edge.node1) && !positions.has(edge.node2))
+            .forEach((edge) => {
+                const node = this.diagramMetadata?.nodes.find((node) => node.svgId == edge.node1);
+                if (node != null) {
+                    positions.set(node.svgId, new Point(node.x, node.y));
+                }
+            });
+        this.moveNodesToPositions(positions, false);
+        this.updateAfterEdgeChanges();
+        return merge.nodes.map((node) => node.equipmentId);
+    }
+
+    // remove a voltage level node, with its text node and its edges, and the boundary and three windings
+    // transformer nodes left without edges
+    // returns false if the voltage level is not found in the diagram
+    public removeVoltageLevel(equipmentId: string): boolean {
+        const nodeId = this.getNodeIdFromEquipmentId(equipmentId);
+        if (this.diagramMetadata == null || nodeId == null) {
+            return false;
+        }
+        const removal = getDiagramRemoval(
+            this.diagramMetadata,
+            nodeId,
+            (otherNodeId) =>
+                this.container
+                    .querySelector("[id='" + otherNodeId + "']")
+                    ?.parentElement?.classList.contains('nad-vl-nodes') ?? false
+        );
+        const removedNodeIds = new Set(removal.nodes.map((node) => node.svgId));
+        removal.nodes.forEach((node) => {
+            const halo = this.container.querySelector("[id='" + node.svgId + "']")?.previousElementSibling;
+            if (halo?.classList.contains(HEATMAP_HALO_CLASS)) {
+                halo.remove();
+            }
+            [node.svgId, DiagramUtils.getTextNodeId(node.svgId), DiagramUtils.getTextEdgeId(node.svgId)].forEach(
+                (svgId) => this.container.querySelector("[id='" + svgId + "']")?.remove()
+            );
+            this.selectedNodes.delete(node.svgId);
+        });
+        removal.edges.forEach((edge) => {
+            this.container.querySelector("[id='" + edge.svgId + "']")?.remove();
+            if (this.selectedEdge?.equipmentId == edge.equipmentId) {
+                this.clearEdgeSelection();
+            }
+        });
+        this.diagramMetadata.busNodes
+            .filter((busNode) => removedNodeIds.has(busNode.vlNode))
+            .forEach((busNode) => this.heatmapVoltages.delete(busNode.svgId));
+        this.diagramMetadata.nodes = this.diagramMetadata.nodes.filter((node) => !removedNodeIds.has(node.svgId));
+        this.diagramMetadata.busNodes = this.diagramMetadata.busNodes.filter(
+            (busNode) => !removedNodeIds.has(busNode.vlNode)
+        );
+        this.diagramMetadata.textNodes = this.diagramMetadata.textNodes.filter(
+            (textNode) => !removedNodeIds.has(textNode.vlNode)
+        );
+        this.diagramMetadata.edges = this.diagramMetadata.edges.filter((edge) => !removal.edges.includes(edge));
+        // redraw the neighbours without the removed edges, by moving them to their current positions
+        const positions: Map<string, Point> = new Map<string, Point>();
+        this.diagramMetadata.nodes
+            .filter((node) => removal.neighbours.includes(node.svgId))
+            .forEach((node) => positions.set(node.svgId, new Point(node.x, node.y)));
+        this.moveNodesToPositions(positions, false);
+        this.updateAfterEdgeChanges();
+        return true;
+    }
+
+    // update the bend point handles and the flow particles, after adding or removing edges
+    private updateAfterEdgeChanges() {
+        if (this.bendPointHandles != null) {
+            this.drawBendPointHandles();
+        }
+        this.drawFlowParticles();
+    }
+
+    // get a playback of the time steps, the values of each displayed time step being updated in place,
+    // replacing the current playback if any
+    public setPlayback(
+        frames: TimedDiagramValues[],
+        onTimestampCallback: OnPlaybackTimestampCallbackType | null
+    ): DiagramPlayback {
+        this.stopPlayback();
+        this.playback = new DiagramPlayback(frames, (values) => this.updateValues(values), onTimestampCallback);
+        return this.playback;
+    }
+
+    public getPlayback(): DiagramPlayback | null {
+        return this.playback;
+    }
+
+    public stopPlayback(): void {
+        this.playback?.pause();
+        this.playback = null;
+    }
+
+    // color the branches and the three windings transformers by loading zone, like the overloads mode of the map
+    // the equipments not listed keep their voltage level color
+    public setOverloadColorMode(
+        branchLoadings: BranchLoading[],
+        lineFlowAlertThreshold: number = LINE_FLOW_ALERT_THRESHOLD_DEFAULT
+    ): void {
+        this.clearOverloadColorMode();
+        branchLoadings.forEach((branchLoading) => {
+            const zoneClass = LOADING_ZONE_CLASSES[getLoadingZone(branchLoading, lineFlowAlertThreshold)];
+            this.diagramMetadata?.edges
+                .filter((edge) => edge.equipmentId == branchLoading.equipmentId)
+                .forEach((edge) => {
+                    this.container.querySelector("[id='" + edge.svgId + "']")?.classList.add(zoneClass);
+                });
+        });
+    }
+
+    public clearOverloadColorMode(): void {
+        const zoneClasses = Object.values(LOADING_ZONE_CLASSES);
+        this.container
+            .querySelectorAll(zoneClasses.map((zoneClass) => '.' + zoneClass).join(', '))
+            .forEach((element) => element.classList.remove(...zoneClasses));
+    }
+
+    // color the bus nodes by per-unit voltage on a diverging scale, and draw the legend of the scale if a legend
+    // container is provided; the bus nodes not listed keep their voltage level color
+    public setVoltageHeatmap(busVoltages: BusVoltage[], options?: VoltageHeatmapOptions): void {
+        this.clearVoltageHeatmap();
+        this.heatmapOptions = options ?? {};
+        if (this.heatmapOptions.legendContainer != null) {
+            this.heatmapLegend = drawHeatmapLegend(
+                this.heatmapOptions.legendContainer,
+                this.heatmapOptions.min ?? HEATMAP_MIN_DEFAULT,
+                this.heatmapOptions.max ?? HEATMAP_MAX_DEFAULT,
+                this.heatmapOptions.colors ?? HEATMAP_COLORS_DEFAULT
+            );
+        }
+        this.updateVoltageHeatmap(busVoltages);
+    }
+
+    // update the colors of the heatmap, without redrawing the legend; the bus nodes not listed keep their color
+    public updateVoltageHeatmap(busVoltages: BusVoltage[]): void {
+        const options = this.heatmapOptions;
+        if (options == null) {
+            return;
+        }
+        const getColor = (v: number) =>
+            getHeatmapColor(
+                v,
+                options.min ?? HEATMAP_MIN_DEFAULT,
+                options.max ?? HEATMAP_MAX_DEFAULT,
+                options.colors ?? HEATMAP_COLORS_DEFAULT
+            );
+        busVoltages.forEach((busVoltage) => {
+            const busNode: BusNodeMetadata | undefined = this.diagramMetadata?.busNodes.find(
+                (busNode) => busNode.equipmentId == busVoltage.equipmentId
+            );
+            const busNodeElement = this.container.querySelector<SVGElement>("[id='" + busNode?.svgId + "']");
+            if (busNode != null && busNodeElement != null) {
+                this.heatmapVoltages.set(busNode.svgId, busVoltage.v);
+                busNodeElement.classList.add(HEATMAP_BUS_CLASS);
+                busNodeElement.style.setProperty(HEATMAP_COLOR_PROPERTY, getColor(busVoltage.v));
+            }
+        });
+        if (options.tintVoltageLevels) {
+            this.tintVoltageLevels(getColor);
+        }
+    }
+
+    // tint each voltage level with a colored bus node by the mean voltage of its colored bus nodes,
+    // with a halo behind its circle: the halo is the previous sibling of the voltage level node, in order to keep
+    // the children of the node, i.e. the bus nodes, untouched
+    private tintVoltageLevels(getColor: (v: number) => string) {
+        this.container.querySelectorAll('.' + HEATMAP_HALO_CLASS).forEach((halo) => halo.remove());
+        const vlVoltages: Map<string, number[]> = new Map<string, number[]>();
+        this.heatmapVoltages.forEach((v, busNodeId) => {
+            const busNode: BusNodeMetadata | undefined = this.diagramMetadata?.busNodes.find(
+                (busNode) => busNode.svgId == busNodeId
+            );
+            if (busNode != null) {
+                vlVoltages.set(busNode.vlNode, [...(vlVoltages.get(busNode.vlNode) ?? []), v]);
+            }
+        });
+        vlVoltages.forEach((voltages, vlNodeId) => {
+            const vlNodeElement = this.container.querySelector("[id='" + vlNodeId + "']");
+            if (vlNodeElement == null) {
+                return;
+            }
+            const meanVoltage = voltages.reduce((sum, v) => sum + v, 0) / voltages.length;
+            // outer radius of the outermost bus node
+            const outerRadius = Math.max(
+                ...(this.diagramMetadata?.busNodes ?? [])
+                    .filter((busNode) => busNode.vlNode == vlNodeId)
+                    .map((busNode) => this.getNodeRadius(busNode.svgId, vlNodeId)[1])
+            );
+            const halo = document.createElementNS('http://www.w3.org/2000/svg', 'circle');
+            halo.setAttribute('class', HEATMAP_HALO_CLASS);
+            halo.setAttribute('r', DiagramUtils.getFormattedValue(outerRadius * HEATMAP_HALO_RADIUS_FACTOR));
+            halo.setAttribute('transform', vlNodeElement.getAttribute('transform') ?? '');
+            halo.style.setProperty(HEATMAP_COLOR_PROPERTY, getColor(meanVoltage));
+            vlNodeElement.before(halo);
+        });
+    }
+
+    public clearVoltageHeatmap(): void {
+        this.container.querySelectorAll<SVGElement>('.' + HEATMAP_BUS_CLASS).forEach((busNodeElement) => {
+            busNodeElement.classList.remove(HEATMAP_BUS_CLASS);
+            busNodeElement.style.removeProperty(HEATMAP_COLOR_PROPERTY);
+        });
+        this.container.querySelectorAll('.' + HEATMAP_HALO_CLASS).forEach((halo) => halo.remove());
+        this.heatmapLegend?.remove();
+        this.heatmapLegend = null;
+        this.heatmapOptions = null;
+        this.heatmapVoltages.clear();
+    }
+
+    // animate particles along the half edges, in the direction of the active power, faster with a higher loading,
+    // the equipments without loading not being animated
+    // the animation is paused when the level of detail hides the edge infos
+    public setFlowAnimation(enabled: boolean, branchLoadings?: BranchLoading[]): void {
+        this.flowSpeeds = null;
+        if (enabled) {
+            this.flowSpeeds = new Map<string, ArrowSpeed>();
+            branchLoadings?.forEach((branchLoading) => {
+                this.flowSpeeds?.set(branchLoading.equipmentId, getFlowSpeed(branchLoading));
+            });
+        }
+        this.drawFlowParticles();
+        this.updateFlowAnimationPause();
+    }
+
+    // draw the particles of each half edge with an active power direction, as a copy of the half edge path
+    private drawFlowParticles() {
+        this.container.querySelectorAll('.' + FLOW_PARTICLES_CLASS).forEach((particles) => particles.remove());
+        const flowSpeeds = this.flowSpeeds;
+        if (flowSpeeds == null) {
+            return;
+        }
+        this.diagramMetadata?.edges.forEach((edge) => {
+            const speed = flowSpeeds.get(edge.equipmentId);
+            if (speed === undefined) {
+                return;
+            }
+            const halfEdges =
+                DiagramUtils.getEdgeType(edge) == DiagramUtils.EdgeType.THREE_WINDINGS_TRANSFORMER
+                    ? [edge.svgId]
+                    : [edge.svgId + '.1', edge.svgId + '.2'];
+            halfEdges.forEach((halfEdgeId) => {
+                const halfEdge = this.container.querySelector("[id='" + halfEdgeId + "']");
+                const edgePath = halfEdge?.querySelector('.nad-edge-path');
+                const reversed = halfEdge != null ? isFlowReversed(halfEdge) : null;
+                if (edgePath == null || reversed == null) {
+                    return;
+                }
+                const particles = edgePath.cloneNode(false) as Element;
+                particles.setAttribute('class', FLOW_PARTICLES_CLASS + ' ' + FLOW_SPEED_CLASSES[speed]);
+                particles.classList.toggle(FLOW_REVERSED_CLASS, reversed);
+                edgePath.after(particles);
+            });
+        });
+    }
+
+    // pause the flow animation when the edge infos are hidden
+    private updateFlowAnimationPause() {
+        const edgeInfos = this.container.querySelector('.nad-edge-infos');
+        this.svgDraw?.node.classList.toggle(
+            FLOW_PAUSED_CLASS,
+            edgeInfos != null && getComputedStyle(edgeInfos).display == 'none'
+        );
+    }
+
+    // set the points of an edge polyline, and of its flow particles if any
+    private setEdgePolylinePoints(polyline: Element | null | undefined, points: string) {
+        polyline?.setAttribute('points', points);
+        const particles = polyline?.nextElementSibling;
+        if (particles?.classList.contains(FLOW_PARTICLES_CLASS)) {
+            particles.setAttribute('points', points);
+        }
+    }
+
+    // compare the displayed state with a reference state of the same network, e.g. base case versus N-1, from the
+    // values of the edges in both states: the active power labels are annotated with their delta, the edges are classed
+    // by flow increase, decrease or reversal, and the nodes missing in the reference state are marked
+    // returns the equipment ids of the nodes of the reference state missing in the displayed state
+    public setComparison(
+        values: EdgeValues[],
+        referenceValues: EdgeValues[],
+        referenceMetadata: DiagramMetadata
+    ): string[] {
+        this.clearComparison();
+        if (this.diagramMetadata == null) {
+            return [];
+        }
+        const deltas = getActivePowerDeltas(values, referenceValues);
+        const equipmentDeltas: Map<string, EdgeDelta[]> = new Map<string, EdgeDelta[]>();
+        deltas.forEach((delta) => {
+            equipmentDeltas.set(delta.equipmentId, [...(equipmentDeltas.get(delta.equipmentId) ?? []), delta]);
+            // annotate the active power label with the delta
+            const label = getEdgeInfosElement(
+                this.container,
+                this.diagramMetadata?.edges,
+                delta.equipmentId,
+                delta.side
+            )?.querySelector('.' + EdgeInfoClass.ACTIVE + ' text');
+            if (label != null) {
+                const deltaLabel = document.createElementNS('http://www.w3.org/2000/svg', 'tspan');
+                deltaLabel.classList.add(DeltaClass.LABEL);
+                deltaLabel.textContent = ' (' + formatDelta(delta.p - delta.pReference) + ')';
+                label.appendChild(deltaLabel);
+            }
+        });
+        equipmentDeltas.forEach((deltas, equipmentId) => {
+            const flowChangeClass = getFlowChangeClass(deltas);
+            if (flowChangeClass != null) {
+                this.diagramMetadata?.edges
+                    .filter((edge) => edge.equipmentId == equipmentId)
+                    .forEach((edge) => {
+                        this.container.querySelector("[id='" + edge.svgId + "']")?.classList.add(flowChangeClass);
+                    });
+            }
+        });
+        const nodeIds = new Set(getMissingNodes(this.diagramMetadata.nodes, referenceMetadata.nodes));
+        this.diagramMetadata.nodes
+            .filter((node) => nodeIds.has(node.equipmentId))
+            .forEach((node) => {
+                this.container.querySelector("[id='" + node.svgId + "']")?.classList.add(DeltaClass.NEW_NODE);
+            });
+        return getMissingNodes(referenceMetadata.nodes, this.diagramMetadata.nodes);
+    }
+
+    public clearComparison(): void {
+        this.container.querySelectorAll('.' + DeltaClass.LABEL).forEach((label) => label.remove());
+        const deltaClasses = [DeltaClass.INCREASE, DeltaClass.DECREASE, DeltaClass.REVERSAL, DeltaClass.NEW_NODE];
+        this.container
+            .querySelectorAll(deltaClasses.map((deltaClass) => '.' + deltaClass).join(', '))
+            .forEach((element) => element.classList.remove(...deltaClasses));
+    }
+
+    // synchronise the viewboxes of this viewer and of another viewer, e.g. to display two states side by side
+    public linkViewBox(otherViewer: NetworkAreaDiagramViewer): void {
+        if (otherViewer == this || this.linkedViewers.includes(otherViewer)) {
+            return;
+        }
+        this.linkedViewers.push(otherViewer);
+        otherViewer.linkViewBox(this);
+        const viewBox = this.getViewBox();
+        if (viewBox != null) {
+            otherViewer.setViewBox(viewBox);
+        }
+        if (this.viewBoxLinkObserver == null && this.svgDraw != null) {
+            // follow the viewBox updates, the linked viewers being updated only if their viewBox differs,
+            // to avoid updating the viewers back and forth
+            this.viewBoxLinkObserver = new MutationObserver(() => {
+                const viewBox = this.getViewBox();
+                this.linkedViewers.forEach((linkedViewer) => {
+                    if (viewBox != null && !DiagramUtils.isSameViewBox(viewBox, linkedViewer.getViewBox())) {
+                        linkedViewer.setViewBox(viewBox);
+                    }
+                });
+            });
+            this.viewBoxLinkObserver.observe(this.svgDraw.node, { attributeFilter: ['viewBox'] });
+        }
+    }
+
+    public unlinkViewBoxes(): void {
+        const linkedViewers = this.linkedViewers;
+        this.linkedViewers = [];
+        this.viewBoxLinkObserver?.disconnect();
+        this.viewBoxLinkObserver = null;
+        linkedViewers.forEach((linkedViewer) => linkedViewer.unlinkViewBox(this));
+    }
+
+    private unlinkViewBox(otherViewer: NetworkAreaDiagramViewer) {
+        this.linkedViewers = this.linkedViewers.filter((linkedViewer) => linkedViewer != otherViewer);
+        if (this.linkedViewers.length == 0) {
+            this.viewBoxLinkObserver?.disconnect();
+            this.viewBoxLinkObserver = null;
+        }
+    }
+
+    // move the listed nodes with a force-directed layout, the other nodes and the locked nodes being fixed
+    // the nodes are animated to their new positions, the whole layout being a single move in the history
+    public layoutNodes(equipmentIds: string[], options?: ForceLayoutOptions): void {
+        this.stopLayoutAnimation();
+        const movableNodes: Set<string> = new Set<string>();
+        equipmentIds.forEach((equipmentId) => {
+            const nodeId = this.getNodeIdFromEquipmentId(equipmentId);
+            if (nodeId != null && !DiagramUtils.isNodeLocked(nodeId, this.diagramMetadata?.nodes)) {
+                movableNodes.add(nodeId);
+            }
+        });
+        if (movableNodes.size == 0) {
+            return;
+        }
+        const [positions, links] = getForceLayoutGraph(this.diagramMetadata);
+        const newPositions = computeForceLayout(
+            positions,
+            links,
+            movableNodes,
+            options?.iterations ?? FORCE_LAYOUT_ITERATIONS_DEFAULT,
+            options?.edgeLength ??
+                getMeanFixedLinkLength(positions, links, movableNodes) ??
+                FORCE_LAYOUT_EDGE_LENGTH_DEFAULT
+        );
+        const animationDuration = options?.animationDuration ?? LAYOUT_ANIMATION_DURATION_DEFAULT;
+        if (animationDuration <= 0) {
+            this.endLayoutAnimation(positions, newPositions);
+            return;
+        }
+        const start = performance.now();
+        const animate = (time: number) => {
+            const progress = Math.min((time - start) / animationDuration, 1);
+            if (progress < 1) {
+                const framePositions: Map<string, Point> = new Map<string, Point>();
+                newPositions.forEach((newPosition, nodeId) => {
+                    const position = positions.get(nodeId) as Point;
+                    framePositions.set(nodeId, getInterpolatedPosition(position, newPosition, progress));
+                });
+                this.moveNodesToPositions(framePositions, false);
+                this.layoutAnimationFrame = requestAnimationFrame(animate);
+            } else {
+                this.layoutAnimationFrame = null;
+                this.endLayoutAnimation(positions, newPositions);
+            }
+        };
+        this.layoutAnimationFrame = requestAnimationFrame(animate);
+    }
+
+    private stopLayoutAnimation() {
+        if (this.layoutAnimationFrame != null) {
+            cancelAnimationFrame(this.layoutAnimationFrame);
+            this.layoutAnimationFrame = null;
+        }
+    }
+
+    // move the nodes to their final positions, then call the move callbacks and store the moves in the history
+    private endLayoutAnimation(positions: Map<string, Point>, newPositions: Map<string, Point>) {
+        this.moveNodesToPositions(newPositions, false);
+        const nodeMoves: Map<string, DiagramUtils.NODEMOVE> = new Map<string, DiagramUtils.NODEMOVE>();
+        newPositions.forEach((newPosition, nodeId) => {
+            const position = positions.get(nodeId) as Point;
+            nodeMoves.set(nodeId, {
+                xOrig: position.x,
+                yOrig: position.y,
+                xNew: DiagramUtils.round(newPosition.x),
+                yNew: DiagramUtils.round(newPosition.y),
+            });
+        });
+        if (this.onMoveNodesCallback != null) {
+            this.callMoveNodesCallback(nodeMoves);
+        } else if (this.onMoveNodeCallback != null) {
+            this.diagramMetadata?.nodes.forEach((node) => {
+                const nodeMove = nodeMoves.get(node.svgId);
+                if (nodeMove != null) {
+                    this.onMoveNodeCallback?.(
+                        node.equipmentId,
+                        node.svgId,
+                        nodeMove.xNew,
+                        nodeMove.yNew,
+                        nodeMove.xOrig,
+                        nodeMove.yOrig
+                    );
+                }
+            });
+        }
+        if (Array.from(nodeMoves.values()).some((nodeMove) => DiagramUtils.isMoved(nodeMove))) {
+            this.history.push({
+                type: HistoryCommandType.NODES_MOVE,
+                moves: nodeMoves,
+            });
+        }
+    }
+
+    // enable or disable the snapping of the dragged nodes to the grid, and to the alignment with the other nodes
+    // snapping is temporarily disabled while the Alt key is pressed
+    public setSnapping(enabled: boolean, gridSize?: number): void {
+        this.snappingEnabled = enabled;
+        if (gridSize !== undefined) {
+            this.gridSize = gridSize;
+        }
+    }
+
+    public isSnappingEnabled(): boolean {
+        return this.snappingEnabled;
+    }
+
+    // export the displayed area or the whole diagram, in its current state, to a standalone SVG or PNG image
+    // the overlays of the viewer are not exported: the selection, focus, highlight, dim and locked node classes,
+    // the flow particles, heatmap halos and bend point handles; the loading zones, heatmap bus colors, comparison
+    // deltas and decluttered labels are exported, being part of the displayed state
+    public exportImage(options: ExportImageOptions): Promise<Blob> {
+        const drawnSvg = this.svgDraw?.node.firstElementChild as SVGSVGElement | null | undefined;
+        const viewBox = options.scope == 'full' ? this.getFullViewBox(drawnSvg) : this.getViewBox();
+        if (drawnSvg == null || viewBox == null) {
+            return Promise.reject(new Error('No diagram to export'));
+        }
+        // the whole diagram is exported with one pixel per SVG unit, the displayed area with its displayed size
+        const scale = options.scale ?? 1;
+        const width = Math.round((options.scope == 'full' ? viewBox.width : this.getWidth()) * scale);
+        const height = Math.round((options.scope == 'full' ? viewBox.height : this.getHeight()) * scale);
+        const highlightClasses = [...this.highlightedElements.values()].flatMap((classNames) => [...classNames]);
+        const svgContent = getStandaloneSvg(
+            drawnSvg,
+            viewBox,
+            width,
+            height,
+            [
+                ...new Set([
+                    SELECTED_NODE_CLASS,
+                    SELECTED_EDGE_CLASS,
+                    FOCUSED_CLASS,
+                    DIMMED_CLASS,
+                    LOCKED_NODE_CLASS,
+                    ...highlightClasses,
+                ]),
+            ],
+            [FLOW_PARTICLES_CLASS, HEATMAP_HALO_CLASS, BEND_POINT_CLASS]
+        );
+        if (options.format == 'png') {
+            return rasterizeSvg(svgContent, width, height);
+        }
+        return Promise.resolve(new Blob([svgContent], { type: 'image/svg+xml' }));
+    }
+
+    // get the viewbox of the whole diagram, including the moved nodes, or the original viewbox if it cannot be computed
+    private getFullViewBox(drawnSvg: SVGSVGElement | null | undefined): ViewBoxLike | undefined {
+        const bbox = typeof drawnSvg?.getBBox === 'function' ? drawnSvg.getBBox() : null;
+        if (bbox != null && bbox.width > 0 && bbox.height > 0) {
+            return {
+                x: bbox.x - EXPORT_MARGIN,
+                y: bbox.y - EXPORT_MARGIN,
+                width: bbox.width + 2 * EXPORT_MARGIN,
+                height: bbox.height + 2 * EXPORT_MARGIN,
+            };
+        }
+        return this.getDimensionsFromSvg()?.viewbox;
+    }
+
+    // show an overview of the diagram in a container, with the displayed area: clicking or dragging in it pans the view
+    public showMinimap(
+        container: HTMLElement,
+        width: number = MINIMAP_WIDTH_DEFAULT,
+        height: number = MINIMAP_HEIGHT_DEFAULT
+    ): void {
+        this.hideMinimap();
+        if (this.svgDraw == null) {
+            return;
+        }
+        this.minimap = new DiagramMinimap(container, width, height, (centre: Point) => {
+            const viewBox = this.getViewBox();
+            if (viewBox != null) {
+                this.setViewBox({
+                    x: centre.x - viewBox.width / 2,
+                    y: centre.y - viewBox.height / 2,
+                    width: viewBox.width,
+                    height: viewBox.height,
+                });
+            }
+        });
+        this.minimap.draw(this.diagramMetadata);
+        this.minimap.setViewBox(this.getViewBox());
+        // follow the viewBox updates, by panzoom or by the minimap
+        this.minimapObserver = new MutationObserver(() => this.minimap?.setViewBox(this.getViewBox()));
+        this.minimapObserver.observe(this.svgDraw.node, { attributeFilter: ['viewBox'] });
+    }
+
+    public hideMinimap(): void {
+        this.minimapObserver?.disconnect();
+        this.minimapObserver = null;
+        this.minimap?.remove();
+        this.minimap = null;
+    }
+
+    // hide the overlapping edge infos and text nodes with lower priority, after each zoom
+    public setDeclutter(enabled: boolean, options?: DeclutterOptions): void {
+        this.declutterObserver?.disconnect();
+        this.declutterObserver = null;
+        this.declutterOptions = enabled ? options ?? {} : null;
+        if (!enabled) {
+            this.clearDeclutter();
+            return;
+        }
+        this.declutter();
+        if (this.svgDraw != null) {
+            this.declutterObserver = new MutationObserver(debounce(() => this.declutter(), DECLUTTER_DEBOUNCE_DELAY));
+            this.declutterObserver.observe(this.svgDraw.node, { attributeFilter: ['viewBox'] });
+        }
+    }
+
+    // run the declutter pass on the displayed labels, the labels hidden by the level of detail being ignored
+    public declutter(): void {
+        if (this.declutterOptions == null || this.draggedElement != null) {
+            return;
+        }
+        this.clearDeclutter();
+        const labelElements: Map<string, Element> = new Map<string, Element>();
+        const labels: Label[] = [];
+        const addLabel = (id: string, element: Element, measuredElement: Element | null, movable: boolean) => {
+            const rect = measuredElement?.getBoundingClientRect();
+            if (rect != null && rect.width > 0 && rect.height > 0) {
+                labelElements.set(id, element);
+                labels.push({
+                    id: id,
+                    box: { x: rect.x, y: rect.y, width: rect.width, height: rect.height },
+                    priority: this.getLabelPriority(element),
+                    movable: movable,
+                });
+            }
+        };
+        this.container.querySelectorAll('.nad-edge-infos').forEach((edgeInfos, index) => {
+            addLabel('edge-infos-' + index, edgeInfos, edgeInfos, false);
+        });
+        this.diagramMetadata?.textNodes.forEach((textNode) => {
+            const textElement = this.container.querySelector("[id='" + textNode.svgId + "']");
+            if (textElement != null) {
+                addLabel(textNode.svgId, textElement, textElement.firstElementChild, true);
+            }
+        });
+        const result = declutterLabels(labels, this.declutterOptions.nudgeTextNodes ?? false);
+        result.hidden.forEach((id) => labelElements.get(id)?.classList.add(DECLUTTERED_CLASS));
+        // the nudges are in pixels, and only displayed: the metadata of the text nodes is left unchanged
+        const scale = this.svgDraw?.node.getScreenCTM()?.a || 1;
+        result.nudges.forEach((translation, textNodeId) => {
+            const textNode = this.diagramMetadata?.textNodes.find((textNode) => textNode.svgId == textNodeId);
+            if (textNode != null) {
+                this.displayTextNodeAtShift(
+                    textNodeId,
+                    new Point(textNode.shiftX + translation.x / scale, textNode.shiftY + translation.y / scale)
+                );
+                this.declutterNudges.add(textNodeId);
+            }
+        });
+    }
+
+    // show the hidden labels, and display the nudged text nodes back at their position
+    private clearDeclutter() {
+        this.container.querySelectorAll('.' + DECLUTTERED_CLASS).forEach((element) => {
+            element.classList.remove(DECLUTTERED_CLASS);
+        });
+        this.declutterNudges.forEach((textNodeId) => {
+            const textNode = this.diagramMetadata?.textNodes.find((textNode) => textNode.svgId == textNodeId);
+            if (textNode != null) {
+                this.displayTextNodeAtShift(textNodeId, new Point(textNode.shiftX, textNode.shiftY));
+            }
+        });
+        this.declutterNudges.clear();
+    }
+
+    // display a text node at a shift w.r.t. its voltage level node, without updating the metadata
+    private displayTextNodeAtShift(textNodeId: string, shift: Point) {
+        const node: NodeMetadata | undefined = this.diagramMetadata?.nodes.find(
+            (node) => node.svgId == DiagramUtils.getVoltageLevelNodeId(textNodeId)
+        );
+        const textElement: SVGGraphicsElement | null = this.container.querySelector("[id='" + textNodeId + "']");
+        const vlNode: SVGGraphicsElement | null = this.container.querySelector("[id='" + node?.svgId + "']");
+        if (node != null && textElement != null) {
+            this.moveText(
+                textElement,
+                vlNode,
+                new Point(node.x + shift.x, node.y + shift.y),
+                (_textNode, position) => position
+            );
+        }
+    }
+
+    // the overloaded edges first, then the highest nominal voltages
+    private getLabelPriority(element: Element): number {
+        if (this.declutterOptions?.getLabelPriority != null) {
+            return this.declutterOptions.getLabelPriority(element);
+        }
+        let voltageElement: Element | null = element;
+        if (DiagramUtils.isTextNode(element as SVGGraphicsElement)) {
+            // the text node has no voltage class, use the one of the buses of its voltage level node
+            voltageElement =
+                this.container
+                    .querySelector("[id='" + DiagramUtils.getVoltageLevelNodeId(element.id) + "']")
+                    ?.querySelector('[class*="nad-vl"]') ?? null;
+        }
+        const loadingZone = Object.values(LoadingZone)
+            .filter((zone): zone is LoadingZone => typeof zone === 'number')
+            .reduce((maxZone, zone) => (element.closest('.' + LOADING_ZONE_CLASSES[zone]) != null ? zone : maxZone), 0);
+        return loadingZone * LOADING_ZONE_PRIORITY + getVoltagePriority(voltageElement);
+    }
+
+    public canUndo(): boolean {
+        return this.history.canUndo();
+    }
+
+    public canRedo(): boolean {
+        return this.history.canRedo();
+    }
+
+    // revert the last node or text node move, or bend point change, calling the move callbacks with the restored
+    // positions
+    public undo(): void {
+        const command = this.history.undo();
+        if (command !== undefined) {
+            this.applyHistoryCommand(command, true);
+        }
+    }
+
+    // apply again the last reverted node or text node move, or bend point change
+    public redo(): void {
+        const command = this.history.redo();
+        if (command !== undefined) {
+            this.applyHistoryCommand(command, false);
+        }
+    }
+
+    private applyHistoryCommand(command: HistoryCommand, undo: boolean) {
+        if (command.type === HistoryCommandType.NODE_MOVE) {
+            const elemToMove: SVGElement | null = this.container.querySelector("[id='" + command.nodeId + "']");
+            if (elemToMove) {
+                const position = undo
+                    ? new Point(command.move.xOrig, command.move.yOrig)
+                    : new Point(command.move.xNew, command.move.yNew);
+                this.onDragStart(elemToMove);
+                this.onDragEnd(position, true, false);
+            }
+        } else if (command.type === HistoryCommandType.NODES_MOVE) {
+            const nodePositions: Map<string, Point> = new Map<string, Point>();
+            command.moves.forEach((move, nodeId) => {
+                nodePositions.set(nodeId, undo ? new Point(move.xOrig, move.yOrig) : new Point(move.xNew, move.yNew));
+            });
+            this.moveNodesToPositions(nodePositions, true);
+        } else if (command.type === HistoryCommandType.EDGE_BEND_POINTS) {
+            const edge = this.diagramMetadata?.edges.find((edge) => edge.svgId == command.edgeId);
+            if (edge != null) {
+                this.setBendPoints(edge, undo ? command.bendPointsOrig : command.bendPointsNew, false);
+            }
+        } else {
+            const shift = undo
+                ? new Point(command.shiftMove.xOrig, command.shiftMove.yOrig)
+                : new Point(command.shiftMove.xNew, command.shiftMove.yNew);
+            const connectionShift = undo
+                ? new Point(command.connectionShiftMove.xOrig, command.connectionShiftMove.yOrig)
+                : new Point(command.connectionShiftMove.xNew, command.connectionShiftMove.yNew);
+            this.moveTextNodeToShift(command.textNodeId, shift, connectionShift, true);
+        }
+    }
+
+    // move a text node to a shift w.r.t. its voltage level node, the text edge being connected at the connection shift
+    private moveTextNodeToShift(
+        textNodeId: string,
+        shift: Point,
+        connectionShift: Point,
+        callMoveTextNodeCallback: boolean
+    ) {
+        const node: NodeMetadata | undefined = this.diagramMetadata?.nodes.find(
+            (node) => node.svgId == DiagramUtils.getVoltageLevelNodeId(textNodeId)
+        );
+        const textElement: SVGGraphicsElement | null = this.container.querySelector("[id='" + textNodeId + "']");
+        if (node != null && textElement != null) {
+            // dragging a text node uses the position of the centre of the text box
+            const centrePosition = new Point(
+                node.x + shift.x + (textElement.firstElementChild?.scrollWidth ?? 0) / 2,
+                node.y + shift.y + (textElement.firstElementChild?.scrollHeight ?? 0) / 2
+            );
+            this.onDragStart(textElement);
+            this.dragVoltageLevelText(centrePosition);
+            const vlNode: SVGGraphicsElement | null = this.container.querySelector("[id='" + node.svgId + "']");
+            if (vlNode != null) {
+                this.endTextEdge = new Point(node.x + connectionShift.x, node.y + connectionShift.y);
+                this.connectTextEdge(DiagramUtils.getTextEdgeId(node.svgId), vlNode, this.endTextEdge);
+            }
+            this.updateTextNodeMetadataCallCallback(centrePosition, callMoveTextNodeCallback);
+            this.resetDrag();
+        }
+    }
+
+    // move several nodes, calling the nodes move callback once if defined, the node move callback for each node otherwise
+    private moveNodesToPositions(
+        nodePositions: Map<string, Point>,
+        callMoveNodeCallback: boolean
+    ): Map<string, DiagramUtils.NODEMOVE> {
+        const nodeMoves: Map<string, DiagramUtils.NODEMOVE> = new Map<string, DiagramUtils.NODEMOVE>();
+        nodePositions.forEach((position, nodeId) => {
+            const elemToMove: SVGElement | null = this.container.querySelector("[id='" + nodeId + "']");
+            if (elemToMove) {
+                this.onDragStart(elemToMove);
+                this.dragVoltageLevelNode(position);
+                const nodeMove = this.updateNodeMetadataCallCallback(
+                    position,
+                    callMoveNodeCallback && this.onMoveNodesCallback == null
+                );
+                if (nodeMove != null) {
+                    nodeMoves.set(nodeId, nodeMove);
+                }
+                this.resetDrag();
+            }
+        });
+        if (callMoveNodeCallback) {
+            this.callMoveNodesCallback(nodeMoves);
+        }
+        this.minimap?.draw(this.diagramMetadata);
+        return nodeMoves;
+    }
+
+    // equipment ids of the nodes in the multi-node selection
+    public getSelectedNodes(): string[] {
+        return (this.diagramMetadata?.nodes ?? [])
+            .filter((node) => this.selectedNodes.has(node.svgId))
+            .map((node) => node.equipmentId);
+    }
+
+    public clearNodeSelection(): void {
+        this.selectedNodes.forEach((nodeId) => {
+            this.container.querySelector("[id='" + nodeId + "']")?.classList.remove(SELECTED_NODE_CLASS);
+        });
+        this.selectedNodes.clear();
+    }
+
+    // selected nodes, and selected edge
+    public getSelection(): DiagramSelection {
+        return {
+            nodes: this.getSelectedNodes(),
+            edges: this.selectedEdge != null ? [this.selectedEdge.equipmentId] : [],
+        };
     }
 
-    public setViewBox(viewBox: ViewBoxLike): void {
-        this.svgDraw?.viewbox(viewBox);
+    public clearEdgeSelection(): void {
+        this.container.querySelectorAll('.' + SELECTED_EDGE_CLASS).forEach((element) => {
+            element.classList.remove(SELECTED_EDGE_CLASS);
+        });
+        this.selectedEdge = null;
     }
 
-    public getDynamicCssRules() {
-        return this.dynamicCssRules;
+    // select an edge, with the other edges of its equipment, i.e. all the edges of a three windings transformer
+    private selectEdge(edge: EdgeMetadata) {
+        this.clearEdgeSelection();
+        this.selectedEdge = edge;
+        this.diagramMetadata?.edges
+            .filter((otherEdge) => otherEdge.equipmentId == edge.equipmentId)
+            .forEach((otherEdge) => {
+                this.container.querySelector("[id='" + otherEdge.svgId + "']")?.classList.add(SELECTED_EDGE_CLASS);
+            });
     }
 
-    private getNodeIdFromEquipmentId(equipmentId: string) {
-        const node: NodeMetadata | undefined = this.diagramMetadata?.nodes.find(
-            (node) => node.equipmentId == equipmentId
-        );
-        return node?.svgId || null;
+    private toggleNodeSelection(nodeId: string) {
+        const node: SVGElement | null = this.container.querySelector("[id='" + nodeId + "']");
+        if (this.selectedNodes.has(nodeId)) {
+            this.selectedNodes.delete(nodeId);
+            node?.classList.remove(SELECTED_NODE_CLASS);
+        } else {
+            this.selectedNodes.add(nodeId);
+            node?.classList.add(SELECTED_NODE_CLASS);
+        }
     }
 
-    public moveNodeToCoordinates(equipmentId: string, x: number, y: number) {
-        const nodeId = this.getNodeIdFromEquipmentId(equipmentId);
-        if (nodeId != null) {
-            const elemToMove: SVGElement | null = this.container.querySelector('[id="' + nodeId + '"]');
-            if (elemToMove) {
-                const newPosition = new Point(x, y);
-                this.onDragStart(elemToMove);
-                this.onDragEnd(newPosition, false);
+    private onKeyDown(event: KeyboardEvent) {
+        if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() == 'z' && !this.readOnly) {
+            event.preventDefault();
+            if (event.shiftKey) {
+                this.redo();
+            } else {
+                this.undo();
             }
+        } else if (event.key == 'Escape') {
+            this.clearNodeSelection();
+            this.clearEdgeSelection();
         }
     }
 
@@ -228,6 +1601,9 @@ export class NetworkAreaDiagramViewer {
             .viewbox(dimensions.viewbox.x, dimensions.viewbox.y, dimensions.viewbox.width, dimensions.viewbox.height);
         const drawnSvg: HTMLElement = <HTMLElement>this.svgDraw.svg(this.svgContent).node.firstElementChild;
         drawnSvg.style.overflow = 'visible';
+        if (hasMetadata) {
+            this.injectCssRules(drawnSvg, VIEWER_CSS_RULES);
+        }
 
         // add events
         if (enableNodeInteraction && hasMetadata) {
@@ -244,6 +1620,18 @@ export class NetworkAreaDiagramViewer {
                     this.onMouseLeftUpOrLeave(e as MouseEvent);
                 }
             });
+            // undo / redo shortcuts: the SVG has to be focusable to receive keyboard events
+            this.svgDraw.attr('tabindex', 0);
+            this.svgDraw.on('mousedown', () => {
+                this.svgDraw?.node.focus({ preventScroll: true });
+            });
+            this.svgDraw.on('keydown', (e: Event) => {
+                this.onKeyDown(e as KeyboardEvent);
+            });
+            // adding or removing edge bend points
+            this.svgDraw.on('dblclick', (e: Event) => {
+                this.onDoubleClick(e as MouseEvent);
+            });
         }
         if (hasMetadata) {
             this.svgDraw.on('mouseover', (e: Event) => {
@@ -253,6 +1641,10 @@ export class NetworkAreaDiagramViewer {
             this.svgDraw.on('mouseout', () => {
                 this.onToggleHoverCallback?.(false, null, '', '');
             });
+
+            this.svgDraw.on('contextmenu', (e: Event) => {
+                this.onContextMenu(e as MouseEvent);
+            });
         }
         this.svgDraw.on('panStart', function () {
             if (drawnSvg.parentElement != undefined) {
@@ -297,9 +1689,9 @@ export class NetworkAreaDiagramViewer {
 
             // Create a debounced version of the observer callback to limit the frequency of calls when the 'viewBox' attribute changes,
             // particularly during zooming operations, improving performance and avoiding redundant updates.
-            const debouncedObserverCallback = debounce(observerCallback, 50);
-            const observer = new MutationObserver(debouncedObserverCallback);
-            observer.observe(targetNode, { attributeFilter: ['viewBox'] });
+            this.levelOfDetailUpdate = debounce(observerCallback, 50);
+            this.levelOfDetailObserver = new MutationObserver(this.levelOfDetailUpdate);
+            this.levelOfDetailObserver.observe(targetNode, { attributeFilter: ['viewBox'] });
         }
 
         if (enableNodeInteraction && hasMetadata) {
@@ -313,6 +1705,67 @@ export class NetworkAreaDiagramViewer {
         }
     }
 
+    // remove the listeners, observers, timers and callbacks of the viewer, and the SVG from the container:
+    // the viewer cannot be used after being destroyed
+    public destroy(): void {
+        this.setAutoResize(false);
+        this.levelOfDetailObserver?.disconnect();
+        this.levelOfDetailObserver = null;
+        this.levelOfDetailUpdate?.clear();
+        this.levelOfDetailUpdate = null;
+        this.hideMinimap();
+        this.setDeclutter(false);
+        this.clearVoltageHeatmap();
+        this.stopPlayback();
+        this.unlinkViewBoxes();
+        this.stopLayoutAnimation();
+        this.clearFocusHighlight();
+        this.flowSpeeds = null;
+        this.onMoveNodeCallback = null;
+        this.onMoveTextNodeCallback = null;
+        this.onSelectNodeCallback = null;
+        this.onToggleHoverCallback = null;
+        this.onMoveNodesCallback = null;
+        this.onContextMenuCallback = null;
+        this.onSelectEdgeCallback = null;
+        this.onMoveEdgeCallback = null;
+        if (this.svgDraw != null) {
+            this.svgDraw.off(); // including the panzoom listeners
+            this.svgDraw.remove();
+            this.svgDraw = undefined;
+        }
+        this.container.innerHTML = '';
+    }
+
+    // in auto resize mode, the SVG is resized to its container when the container changes size
+    public setAutoResize(enabled: boolean): void {
+        this.resizeObserver?.disconnect();
+        this.resizeObserver = null;
+        if (enabled && this.svgDraw != null) {
+            this.resizeObserver = new ResizeObserver((entries: ResizeObserverEntry[]) => {
+                const contentRect = entries[entries.length - 1].contentRect;
+                this.resize(contentRect.width, contentRect.height);
+            });
+            this.resizeObserver.observe(this.container);
+        }
+    }
+
+    // resize the SVG, the panzoom ratio being recomputed from the new size
+    private resize(width: number, height: number) {
+        const dimensions: DIMENSIONS | null = this.getDimensionsFromSvg();
+        if (this.svgDraw == null || dimensions == null || width <= 0 || height <= 0) {
+            return;
+        }
+        this.setWidth(width);
+        this.setHeight(height);
+        this.svgDraw.size(width, height);
+        this.ratio = Math.max(dimensions.viewbox.width / width, dimensions.viewbox.height / height);
+        // panning is disabled while moving a node or a bend point, or while drawing a selection rectangle
+        if (this.draggedElement == null && this.draggedBendPoint == null && this.selectionStart == null) {
+            this.enablePanzoom();
+        }
+    }
+
     public getDimensionsFromSvg(): DIMENSIONS | null {
         // Dimensions are set in the main svg tag attributes. We want to parse those data without loading the whole svg in the DOM.
         const result = this.svgContent.match('<svg[^>]*>');
@@ -347,12 +1800,94 @@ export class NetworkAreaDiagramViewer {
     private onMouseLeftDown(event: MouseEvent) {
         // check dragging vs. selection
         if (event.shiftKey) {
-            // selecting node
-            this.onSelectStart(DiagramUtils.getSelectableFrom(event.target as SVGElement));
+            // selecting node or edge
+            this.onSelectStart(
+                DiagramUtils.getSelectableFrom(event.target as SVGElement) ??
+                    DiagramUtils.getSelectableEdgeFrom(event.target as SVGElement)
+            );
+        } else if (event.ctrlKey || event.metaKey) {
+            // adding nodes to the multi-node selection
+            this.onMultiSelectStart(event);
+        } else if (this.readOnly) {
+            // no move in read-only mode, only panning
+            this.clearNodeSelection();
+        } else if ((event.target as SVGElement).classList.contains(BEND_POINT_CLASS)) {
+            // moving edge bend point
+            this.onBendPointDragStart(event.target as SVGElement);
         } else {
-            // moving node
-            this.onDragStart(DiagramUtils.getDraggableFrom(event.target as SVGElement));
+            // moving node, or group of selected nodes, except the locked nodes
+            const draggableElem = DiagramUtils.getDraggableFrom(
+                event.target as SVGElement,
+                this.diagramMetadata?.nodes
+            );
+            if (draggableElem && this.selectedNodes.has(draggableElem.id) && this.selectedNodes.size > 1) {
+                this.draggedNodeIds = Array.from(this.selectedNodes).filter(
+                    (nodeId) => !DiagramUtils.isNodeLocked(nodeId, this.diagramMetadata?.nodes)
+                );
+            } else {
+                this.clearNodeSelection();
+            }
+            this.onDragStart(draggableElem);
+        }
+    }
+
+    private onMultiSelectStart(event: MouseEvent) {
+        this.disablePanzoom(); // to avoid panning the whole SVG when drawing the selection rectangle
+        this.ctm = this.svgDraw?.node.getScreenCTM(); // used to compute mouse position
+        const draggableElem = DiagramUtils.getDraggableFrom(event.target as SVGElement);
+        this.selectionClickedNode =
+            draggableElem && !DiagramUtils.isTextNode(draggableElem as SVGGraphicsElement)
+                ? (draggableElem as SVGGraphicsElement)
+                : null;
+        this.selectionStart = this.getMousePosition(event);
+        this.selectionRectangle =
+            this.svgDraw?.rect(0, 0).move(this.selectionStart.x, this.selectionStart.y).attr({
+                fill: '#1e90ff',
+                'fill-opacity': 0.1,
+                stroke: '#1e90ff',
+                'stroke-dasharray': '4',
+                'vector-effect': 'non-scaling-stroke',
+                'pointer-events': 'none',
+            }) ?? null;
+    }
+
+    private onMultiSelectMove(mousePosition: Point) {
+        if (this.selectionStart != null) {
+            this.selectionRectangle
+                ?.move(
+                    Math.min(this.selectionStart.x, mousePosition.x),
+                    Math.min(this.selectionStart.y, mousePosition.y)
+                )
+                .size(
+                    Math.abs(mousePosition.x - this.selectionStart.x),
+                    Math.abs(mousePosition.y - this.selectionStart.y)
+                );
+        }
+    }
+
+    private onMultiSelectEnd(mousePosition: Point) {
+        const selectionStart = this.selectionStart ?? mousePosition;
+        if (
+            this.selectionClickedNode != null &&
+            selectionStart.x == mousePosition.x &&
+            selectionStart.y == mousePosition.y
+        ) {
+            // click on a node: add it to or remove it from the selection
+            this.toggleNodeSelection(this.selectionClickedNode.id);
+        } else {
+            // add the nodes inside the rectangle to the selection
+            this.diagramMetadata?.nodes
+                .filter((node) => DiagramUtils.isInRectangle(new Point(node.x, node.y), selectionStart, mousePosition))
+                .filter((node) => !this.selectedNodes.has(node.svgId))
+                .forEach((node) => this.toggleNodeSelection(node.svgId));
         }
+        // reset data
+        this.selectionRectangle?.remove();
+        this.selectionRectangle = null;
+        this.selectionStart = null;
+        this.selectionClickedNode = null;
+        this.ctm = null;
+        this.enablePanzoom();
     }
 
     private onSelectStart(selectableElem: SVGElement | undefined) {
@@ -389,20 +1924,115 @@ export class NetworkAreaDiagramViewer {
         if (this.draggedElement) {
             event.preventDefault();
             this.ctm = this.svgDraw?.node.getScreenCTM(); // used to compute SVG transformations
-            const newPosition = this.getMousePosition(event);
+            const newPosition = this.getSnappedPosition(this.getMousePosition(event), event);
             this.drag(newPosition);
+        } else if (this.draggedBendPoint) {
+            event.preventDefault();
+            this.ctm = this.svgDraw?.node.getScreenCTM(); // used to compute SVG transformations
+            this.dragBendPoint(this.getMousePosition(event));
+        } else if (this.selectionStart) {
+            event.preventDefault();
+            this.onMultiSelectMove(this.getMousePosition(event));
         }
     }
 
     private drag(newPosition: Point) {
         if (this.textNodeSelected) {
             this.dragVoltageLevelText(newPosition);
+        } else if (this.draggedNodeIds.length > 0) {
+            this.dragNodeGroup(newPosition);
         } else {
             this.dragVoltageLevelNode(newPosition);
         }
         this.initialPosition = DiagramUtils.getPosition(this.draggedElement);
     }
 
+    // move all the dragged nodes rigidly, following the translation of the node under the mouse
+    private dragNodeGroup(newPosition: Point) {
+        this.getNodeGroupPositions(newPosition).forEach((position, nodeId) => {
+            const node: SVGGraphicsElement | null = this.container.querySelector("[id='" + nodeId + "']");
+            if (node != null) {
+                const draggedElement = this.draggedElement;
+                this.draggedElement = node;
+                this.initialPosition = DiagramUtils.getPosition(node);
+                this.dragVoltageLevelNode(position);
+                this.draggedElement = draggedElement;
+            }
+        });
+    }
+
+    private getNodeGroupPositions(newPosition: Point): Map<string, Point> {
+        const translation = this.getTranslation(newPosition);
+        const nodePositions: Map<string, Point> = new Map<string, Point>();
+        this.draggedNodeIds.forEach((nodeId) => {
+            const node: SVGGraphicsElement | null = this.container.querySelector("[id='" + nodeId + "']");
+            if (node != null) {
+                const position = DiagramUtils.getPosition(node);
+                nodePositions.set(nodeId, new Point(position.x + translation.x, position.y + translation.y));
+            }
+        });
+        return nodePositions;
+    }
+
+    // snap the position of the dragged node, to the centre of an aligned node if any, else to the grid
+    private getSnappedPosition(mousePosition: Point, event: MouseEvent): Point {
+        this.removeAlignmentGuides();
+        if (!this.snappingEnabled || event.altKey || this.textNodeSelected) {
+            return mousePosition;
+        }
+        const draggedNodeIds = this.draggedNodeIds.length > 0 ? this.draggedNodeIds : [this.draggedElement?.id];
+        const otherNodes: NodeMetadata[] =
+            this.diagramMetadata?.nodes.filter((node) => !draggedNodeIds.includes(node.svgId)) ?? [];
+        const tolerance = ALIGNMENT_TOLERANCE / (this.ctm?.a ?? 1);
+        const alignedX = DiagramUtils.getAlignedCoordinate(
+            mousePosition.x,
+            otherNodes.map((node) => node.x),
+            tolerance
+        );
+        const alignedY = DiagramUtils.getAlignedCoordinate(
+            mousePosition.y,
+            otherNodes.map((node) => node.y),
+            tolerance
+        );
+        const snappedPosition = new Point(
+            alignedX ?? DiagramUtils.getSnappedCoordinate(mousePosition.x, this.gridSize),
+            alignedY ?? DiagramUtils.getSnappedCoordinate(mousePosition.y, this.gridSize)
+        );
+        // show the alignment guides, from the aligned nodes to the dragged node
+        if (alignedX != null) {
+            const alignedYs = otherNodes.filter((node) => node.x == alignedX).map((node) => node.y);
+            this.addAlignmentGuide(
+                new Point(alignedX, Math.min(snappedPosition.y, ...alignedYs)),
+                new Point(alignedX, Math.max(snappedPosition.y, ...alignedYs))
+            );
+        }
+        if (alignedY != null) {
+            const alignedXs = otherNodes.filter((node) => node.y == alignedY).map((node) => node.x);
+            this.addAlignmentGuide(
+                new Point(Math.min(snappedPosition.x, ...alignedXs), alignedY),
+                new Point(Math.max(snappedPosition.x, ...alignedXs), alignedY)
+            );
+        }
+        return snappedPosition;
+    }
+
+    private addAlignmentGuide(start: Point, end: Point) {
+        const guide = this.svgDraw?.line(start.x, start.y, end.x, end.y).attr({
+            stroke: '#e91e63',
+            'stroke-dasharray': '6',
+            'vector-effect': 'non-scaling-stroke',
+            'pointer-events': 'none',
+        });
+        if (guide != null) {
+            this.alignmentGuides.push(guide);
+        }
+    }
+
+    private removeAlignmentGuides() {
+        this.alignmentGuides.forEach((guide) => guide.remove());
+        this.alignmentGuides = [];
+    }
+
     private onHover(mouseEvent: MouseEvent) {
         if (this.onToggleHoverCallback == null) {
             return;
@@ -419,38 +2049,106 @@ export class NetworkAreaDiagramViewer {
             (edge) => edge.svgId == hoverableElem?.id
         );
 
+        //get voltage level, boundary or three windings transformer node by svgId
+        const node: NodeMetadata | undefined = this.diagramMetadata?.nodes.find(
+            (node) => node.svgId == hoverableElem?.id
+        );
+
         if (edge) {
             const mousePosition = this.getMousePosition(mouseEvent);
             const equipmentId = edge?.equipmentId ?? '';
             const edgeType = DiagramUtils.getStringEdgeType(edge) ?? '';
             this.onToggleHoverCallback(true, mousePosition, equipmentId, edgeType);
+        } else if (node) {
+            const mousePosition = this.getMousePosition(mouseEvent);
+            const busNode: BusNodeMetadata | undefined = this.diagramMetadata?.busNodes.find(
+                (busNode) => busNode.svgId == (mouseEvent.target as SVGElement).id
+            );
+            const nodeType = DiagramUtils.getNodeEquipmentType(hoverableElem, this.diagramMetadata?.edges);
+            this.onToggleHoverCallback(true, mousePosition, node.equipmentId, nodeType, busNode ?? null);
         } else {
             this.onToggleHoverCallback(false, null, '', '');
         }
     }
 
+    private onContextMenu(event: MouseEvent) {
+        if (this.onContextMenuCallback == null) {
+            return;
+        }
+        const target = DiagramUtils.getContextMenuTargetFrom(event.target as Element, this.diagramMetadata);
+        if (target != null) {
+            event.preventDefault();
+            event.stopPropagation();
+            this.onContextMenuCallback(
+                target.kind,
+                target.equipmentId,
+                target.svgId,
+                target.equipmentType,
+                event.x,
+                event.y,
+                target.voltageLevelId
+            );
+        }
+    }
+
     private onMouseLeftUpOrLeave(event: MouseEvent) {
         // check if I moved or selected an element
         if (this.draggedElement) {
             // moving node
-            this.onDragEnd(this.getMousePosition(event), true);
+            this.onDragEnd(this.getSnappedPosition(this.getMousePosition(event), event), true, true);
+        } else if (this.draggedBendPoint) {
+            // moving edge bend point
+            this.onBendPointDragEnd(this.getMousePosition(event));
+        } else if (this.selectionStart) {
+            // selecting nodes
+            this.onMultiSelectEnd(this.getMousePosition(event));
         } else if (this.selectedElement) {
             // selecting node
             this.onSelectEnd();
         }
     }
 
-    private onDragEnd(newPosition: Point, callMoveNodeCallback: boolean) {
+    private onDragEnd(newPosition: Point, callMoveNodeCallback: boolean, addToHistory: boolean) {
         if (this.textNodeSelected) {
             this.dragVoltageLevelText(newPosition);
-            this.updateTextNodeMetadataCallCallback(newPosition);
+            const textNodeMoves = this.updateTextNodeMetadataCallCallback(newPosition, callMoveNodeCallback);
+            if (addToHistory && textNodeMoves != null && DiagramUtils.isMoved(textNodeMoves[0])) {
+                this.history.push({
+                    type: HistoryCommandType.TEXT_NODE_MOVE,
+                    textNodeId: this.draggedElement?.id ?? '',
+                    shiftMove: textNodeMoves[0],
+                    connectionShiftMove: textNodeMoves[1],
+                });
+            }
+        } else if (this.draggedNodeIds.length > 0) {
+            const nodeMoves = this.moveNodesToPositions(this.getNodeGroupPositions(newPosition), callMoveNodeCallback);
+            if (addToHistory && Array.from(nodeMoves.values()).some((nodeMove) => DiagramUtils.isMoved(nodeMove))) {
+                this.history.push({
+                    type: HistoryCommandType.NODES_MOVE,
+                    moves: nodeMoves,
+                });
+            }
         } else {
             this.dragVoltageLevelNode(newPosition);
-            this.updateNodeMetadataCallCallback(newPosition, callMoveNodeCallback);
+            const nodeMove = this.updateNodeMetadataCallCallback(newPosition, callMoveNodeCallback);
+            if (addToHistory && nodeMove != null && DiagramUtils.isMoved(nodeMove)) {
+                this.history.push({
+                    type: HistoryCommandType.NODE_MOVE,
+                    nodeId: this.draggedElement?.id ?? '',
+                    move: nodeMove,
+                });
+            }
+            this.minimap?.draw(this.diagramMetadata);
         }
+        this.resetDrag();
+    }
+
+    private resetDrag() {
         // reset data
         this.draggedElement = null;
+        this.draggedNodeIds = [];
         this.ctm = null;
+        this.removeAlignmentGuides();
         this.enablePanzoom();
 
         // change cursor style back to normal
@@ -459,11 +2157,155 @@ export class NetworkAreaDiagramViewer {
     }
 
     private onSelectEnd() {
-        this.callSelectNodeCallback();
+        const edge: EdgeMetadata | undefined = this.diagramMetadata?.edges.find(
+            (edge) => edge.svgId == this.selectedElement?.id
+        );
+        if (edge != null) {
+            this.selectEdge(edge);
+            this.callSelectEdgeCallback(edge);
+        } else {
+            this.callSelectNodeCallback();
+        }
         this.selectedElement = null;
         this.enablePanzoom();
     }
 
+    // double click on a branch edge adds a bend point, on a bend point removes it
+    private onDoubleClick(event: MouseEvent) {
+        if (this.readOnly) {
+            return;
+        }
+        const target = event.target as SVGElement;
+        if (target.classList.contains(BEND_POINT_CLASS)) {
+            const edge = this.diagramMetadata?.edges.find((edge) => edge.svgId == target.dataset.edgeId);
+            if (edge != null) {
+                const bendPoints = [...(edge.bendPoints ?? [])];
+                bendPoints.splice(Number(target.dataset.index), 1);
+                this.setBendPoints(edge, bendPoints, true);
+            }
+            return;
+        }
+        const edgeElement = DiagramUtils.getSelectableEdgeFrom(target);
+        const edge = this.diagramMetadata?.edges.find((edge) => edge.svgId == edgeElement?.id);
+        const node1 = this.diagramMetadata?.nodes.find((node) => node.svgId == edge?.node1);
+        const node2 = this.diagramMetadata?.nodes.find((node) => node.svgId == edge?.node2);
+        if (edge == null || node1 == null || node2 == null || !DiagramUtils.isBendableEdge(edge)) {
+            return;
+        }
+        event.preventDefault();
+        this.ctm = this.svgDraw?.node.getScreenCTM(); // used to compute mouse position
+        const mousePosition = this.getMousePosition(event);
+        this.ctm = null;
+        // insert the bend point in the segment of the edge closest to the mouse
+        const bendPoints = [...(edge.bendPoints ?? [])];
+        const index = DiagramUtils.getClosestSegmentIndex(
+            [new Point(node1.x, node1.y), ...DiagramUtils.getBendPoints(edge), new Point(node2.x, node2.y)],
+            mousePosition
+        );
+        bendPoints.splice(index, 0, { x: DiagramUtils.round(mousePosition.x), y: DiagramUtils.round(mousePosition.y) });
+        this.setBendPoints(edge, bendPoints, true);
+    }
+
+    private onBendPointDragStart(handle: SVGElement) {
+        const edge = this.diagramMetadata?.edges.find((edge) => edge.svgId == handle.dataset.edgeId);
+        if (edge == null) {
+            return;
+        }
+        this.disablePanzoom(); // to avoid panning the whole SVG when moving the bend point
+        this.draggedBendPoint = {
+            edge: edge,
+            index: Number(handle.dataset.index),
+            handle: handle,
+            bendPointsOrig: edge.bendPoints ?? [],
+        };
+    }
+
+    private dragBendPoint(mousePosition: Point) {
+        if (this.draggedBendPoint != null) {
+            const edge = this.draggedBendPoint.edge;
+            const bendPoints = [...(edge.bendPoints ?? [])];
+            bendPoints[this.draggedBendPoint.index] = {
+                x: DiagramUtils.round(mousePosition.x),
+                y: DiagramUtils.round(mousePosition.y),
+            };
+            edge.bendPoints = bendPoints;
+            this.redrawEdge(edge);
+            this.draggedBendPoint.handle.setAttribute('cx', DiagramUtils.getFormattedValue(mousePosition.x));
+            this.draggedBendPoint.handle.setAttribute('cy', DiagramUtils.getFormattedValue(mousePosition.y));
+        }
+    }
+
+    private onBendPointDragEnd(mousePosition: Point) {
+        if (this.draggedBendPoint != null) {
+            this.dragBendPoint(mousePosition);
+            const { edge, index, bendPointsOrig } = this.draggedBendPoint;
+            // a click on a bend point doesn't move it
+            const bendPoint = edge.bendPoints?.[index];
+            if (bendPoint?.x != bendPointsOrig[index]?.x || bendPoint?.y != bendPointsOrig[index]?.y) {
+                this.addBendPointsHistoryCommand(edge, bendPointsOrig);
+                this.callMoveEdgeCallback(edge, bendPointsOrig);
+            }
+            this.draggedBendPoint = null;
+            this.ctm = null;
+            this.enablePanzoom();
+        }
+    }
+
+    // update the bend points of an edge in the metadata, and redraw the edge
+    private setBendPoints(edge: EdgeMetadata, bendPoints: PointMetadata[], addHistoryCommand: boolean) {
+        const bendPointsOrig = edge.bendPoints ?? [];
+        edge.bendPoints = bendPoints;
+        this.redrawEdge(edge);
+        this.drawBendPointHandles();
+        if (addHistoryCommand) {
+            this.addBendPointsHistoryCommand(edge, bendPointsOrig);
+        }
+        this.callMoveEdgeCallback(edge, bendPointsOrig);
+    }
+
+    private addBendPointsHistoryCommand(edge: EdgeMetadata, bendPointsOrig: PointMetadata[]) {
+        this.history.push({
+            type: HistoryCommandType.EDGE_BEND_POINTS,
+            edgeId: edge.svgId,
+            bendPointsOrig: bendPointsOrig,
+            bendPointsNew: edge.bendPoints ?? [],
+        });
+    }
+
+    // redraw an edge, e.g. after a change of its bend points, without moving its nodes
+    private redrawEdge(edge: EdgeMetadata) {
+        const node1: SVGGraphicsElement | null = this.container.querySelector("[id='" + edge.node1 + "']");
+        if (node1 == null) {
+            return;
+        }
+        // the edge is redrawn as if its first node was dragged to its current position
+        this.draggedElement = node1;
+        this.initialPosition = DiagramUtils.getPosition(node1);
+        this.edgeAngles = new Map<string, number>();
+        this.moveStraightEdge(edge, this.initialPosition);
+        this.redrawOtherVoltageLevelNode(node1, [edge]);
+        this.draggedElement = null;
+    }
+
+    // draw the handles used to move and remove the bend points of the edges, none in read-only mode
+    private drawBendPointHandles() {
+        this.bendPointHandles?.remove();
+        this.bendPointHandles = this.svgDraw?.group() ?? null;
+        if (this.readOnly) {
+            return;
+        }
+        this.diagramMetadata?.edges.forEach((edge) => {
+            (edge.bendPoints ?? []).forEach((bendPoint, index) => {
+                this.bendPointHandles
+                    ?.circle(2 * BEND_POINT_RADIUS)
+                    .center(bendPoint.x, bendPoint.y)
+                    .addClass(BEND_POINT_CLASS)
+                    .data('edge-id', edge.svgId)
+                    .data('index', index);
+            });
+        });
+    }
+
     // position w.r.t the SVG box
     private getMousePosition(event: MouseEvent): Point {
         return new Point(
@@ -500,10 +2342,13 @@ export class NetworkAreaDiagramViewer {
     }
 
     private moveNode(mousePosition: Point) {
-        this.draggedElement?.setAttribute(
-            'transform',
-            'translate(' + DiagramUtils.getFormattedPoint(mousePosition) + ')'
-        );
+        const transform = 'translate(' + DiagramUtils.getFormattedPoint(mousePosition) + ')';
+        this.draggedElement?.setAttribute('transform', transform);
+        // move the heatmap halo of the node, if any
+        const halo = this.draggedElement?.previousElementSibling;
+        if (halo?.classList.contains(HEATMAP_HALO_CLASS)) {
+            halo.setAttribute('transform', transform);
+        }
     }
 
     private moveText(
@@ -542,6 +2387,22 @@ export class NetworkAreaDiagramViewer {
         textHeight: number,
         textWidth: number
     ) {
+        const textEdge: SVGGraphicsElement | null = this.container.querySelector("[id='" + textEdgeId + "']");
+        if (textEdge != null) {
+            // compute text edge end
+            this.endTextEdge = DiagramUtils.getTextEdgeEnd(
+                textNodePosition,
+                DiagramUtils.getPosition(vlNode),
+                this.layoutParameters.getTextNodeEdgeConnectionYShift(),
+                textHeight,
+                textWidth
+            );
+            this.connectTextEdge(textEdgeId, vlNode, this.endTextEdge);
+        }
+    }
+
+    // draw a text edge from the voltage level circle to an end
+    private connectTextEdge(textEdgeId: string, vlNode: SVGGraphicsElement, endTextEdge: Point) {
         const textEdge: SVGGraphicsElement | null = this.container.querySelector("[id='" + textEdgeId + "']");
         if (textEdge != null) {
             // compute voltage level circle radius
@@ -555,22 +2416,14 @@ export class NetworkAreaDiagramViewer {
                     ? this.svgParameters.getFictitiousVoltageLevelCircleRadius()
                     : this.svgParameters.getVoltageLevelCircleRadius()
             );
-            // compute text edge start and end
-            const vlNodePosition = DiagramUtils.getPosition(vlNode);
-            this.endTextEdge = DiagramUtils.getTextEdgeEnd(
-                textNodePosition,
-                vlNodePosition,
-                this.layoutParameters.getTextNodeEdgeConnectionYShift(),
-                textHeight,
-                textWidth
-            );
+            // compute text edge start
             const startTextEdge = DiagramUtils.getPointAtDistance(
-                vlNodePosition,
-                this.endTextEdge,
+                DiagramUtils.getPosition(vlNode),
+                endTextEdge,
                 voltageLevelCircleRadius
             );
             // update text edge polyline
-            const polyline = DiagramUtils.getFormattedPolyline(startTextEdge, null, this.endTextEdge);
+            const polyline = DiagramUtils.getFormattedPolyline(startTextEdge, null, endTextEdge);
             textEdge.setAttribute('points', polyline);
         }
     }
@@ -683,8 +2536,9 @@ export class NetworkAreaDiagramViewer {
             const angleStep = this.svgParameters.getEdgesForkAperture() / (nbForks - 1);
             let i = 0;
             edges.forEach((edge) => {
-                if (2 * i + 1 == nbForks) {
-                    this.moveStraightEdge(edge, mousePosition); // central edge, if present -> straight line
+                if (2 * i + 1 == nbForks || DiagramUtils.getBendPoints(edge).length > 0) {
+                    // central edge, if present -> straight line, edge with bend points -> line through the bend points
+                    this.moveStraightEdge(edge, mousePosition);
                 } else {
                     // get edge type
                     const edgeType = DiagramUtils.getEdgeType(edge);
@@ -779,16 +2633,39 @@ export class NetworkAreaDiagramViewer {
             return;
         }
         // compute moved edge data: polyline points
+        const position1 = DiagramUtils.getPosition(edgeNodes[0]);
+        const position2 = DiagramUtils.getPosition(edgeNodes[1]);
         const nodeRadius1 = this.getNodeRadius(edge.busNode1 ?? '-1', edge.node1 ?? '-1');
-        const edgeStart1 = this.getEdgeStart(edge.busNode1, nodeRadius1[1], edgeNodes[0], edgeNodes[1]);
         const nodeRadius2 = this.getNodeRadius(edge.busNode2 ?? '-1', edge.node2 ?? '-1');
-        const edgeStart2 = this.getEdgeStart(edge.busNode2, nodeRadius2[1], edgeNodes[1], edgeNodes[0]);
-        const edgeMiddle = DiagramUtils.getMidPosition(edgeStart1, edgeStart2);
-        // move edge
-        this.moveEdge(edgeNode, edgeStart1, null, edgeStart2, null, edgeMiddle, nodeRadius1, nodeRadius2, edgeType);
+        const bendPoints = DiagramUtils.getBendPoints(edge);
+        let halfPolyline2: Point[]; // from the node 2 to the middle of the edge
+        if (bendPoints.length > 0) {
+            const edgeStart1 = this.getEdgeStart(edge.busNode1, nodeRadius1[1], position1, bendPoints[0]);
+            const edgeStart2 = this.getEdgeStart(
+                edge.busNode2,
+                nodeRadius2[1],
+                position2,
+                bendPoints[bendPoints.length - 1]
+            );
+            const halfPolylines = DiagramUtils.splitPolyline([edgeStart1, ...bendPoints, edgeStart2]);
+            // move edge
+            this.moveBentEdge(edgeNode, halfPolylines[0], halfPolylines[1], nodeRadius1, nodeRadius2, edgeType);
+            halfPolyline2 = halfPolylines[1];
+        } else {
+            const edgeStart1 = this.getEdgeStart(edge.busNode1, nodeRadius1[1], position1, position2);
+            const edgeStart2 = this.getEdgeStart(edge.busNode2, nodeRadius2[1], position2, position1);
+            const edgeMiddle = DiagramUtils.getMidPosition(edgeStart1, edgeStart2);
+            // move edge
+            this.moveEdge(edgeNode, edgeStart1, null, edgeStart2, null, edgeMiddle, nodeRadius1, nodeRadius2, edgeType);
+            halfPolyline2 = [edgeStart2, edgeMiddle];
+        }
         // if dangling line edge -> redraw boundary node
         if (edgeType == DiagramUtils.EdgeType.DANGLING_LINE) {
-            this.redrawBoundaryNode(edgeNodes[1], DiagramUtils.getAngle(edgeStart2, edgeMiddle), nodeRadius2[1]);
+            this.redrawBoundaryNode(
+                edgeNodes[1],
+                DiagramUtils.getAngle(halfPolyline2[0], halfPolyline2[1]),
+                nodeRadius2[1]
+            );
             if (this.draggedElement?.id == edgeNodes[1]?.id) {
                 // if boundary node moved -> redraw other voltage level node
                 this.redrawOtherVoltageLevelNode(edgeNodes[0], [edge]);
@@ -800,20 +2677,48 @@ export class NetworkAreaDiagramViewer {
         }
     }
 
-    private getEdgeStart(
-        busNodeId: string | null,
-        outerRadius: number,
-        point1: SVGGraphicsElement | null,
-        point2: SVGGraphicsElement | null
-    ): Point {
+    private getEdgeStart(busNodeId: string | null, outerRadius: number, point1: Point, point2: Point): Point {
         const unknownBusNode = busNodeId != null && busNodeId.length == 0;
         return DiagramUtils.getPointAtDistance(
-            DiagramUtils.getPosition(point1),
-            DiagramUtils.getPosition(point2),
+            point1,
+            point2,
             unknownBusNode ? outerRadius + this.svgParameters.getUnknownBusNodeExtraRadius() : outerRadius
         );
     }
 
+    // move an edge with bend points: each half edge goes from its node to the middle of the edge, through the bend points
+    private moveBentEdge(
+        edgeNode: SVGGraphicsElement,
+        halfPolyline1: Point[],
+        halfPolyline2: Point[],
+        nodeRadius1: [number, number, number],
+        nodeRadius2: [number, number, number],
+        edgeType: DiagramUtils.EdgeType
+    ) {
+        const isTransformerEdge =
+            edgeType == DiagramUtils.EdgeType.TWO_WINDINGS_TRANSFORMER ||
+            edgeType == DiagramUtils.EdgeType.PHASE_SHIFT_TRANSFORMER;
+        const isHVDCLineEdge = edgeType == DiagramUtils.EdgeType.HVDC_LINE;
+        this.moveHalfEdgePolyline(edgeNode, '1', halfPolyline1, isTransformerEdge, nodeRadius1);
+        this.moveHalfEdgePolyline(edgeNode, '2', halfPolyline2, isTransformerEdge, nodeRadius2);
+        // the transformer, the converter station and the edge name are placed on the segments around the middle
+        const edgeMiddle = halfPolyline1[halfPolyline1.length - 1];
+        const beforeMiddle1 = halfPolyline1[halfPolyline1.length - 2];
+        const beforeMiddle2 = halfPolyline2[halfPolyline2.length - 2];
+        if (isTransformerEdge) {
+            this.moveTransformer(edgeNode, beforeMiddle1, edgeMiddle, beforeMiddle2, edgeMiddle, edgeType);
+        } else if (isHVDCLineEdge) {
+            this.moveConverterStation(edgeNode, beforeMiddle1, edgeMiddle, beforeMiddle2, edgeMiddle);
+        }
+        // if present, move edge name
+        if (this.svgParameters.getEdgeNameDisplayed()) {
+            this.moveEdgeName(edgeNode, edgeMiddle, beforeMiddle1);
+        }
+        // store edge angles, to use them for bus node redrawing
+        this.edgeAngles.set(edgeNode.id + '.1', DiagramUtils.getAngle(halfPolyline1[0], halfPolyline1[1]));
+        this.edgeAngles.set(edgeNode.id + '.2', DiagramUtils.getAngle(halfPolyline2[0], halfPolyline2[1]));
+    }
+
     private moveEdge(
         edgeNode: SVGGraphicsElement,
         edgeStart1: Point,
@@ -886,15 +2791,46 @@ export class NetworkAreaDiagramViewer {
               )
             : endPolyline;
         const polylinePoints: string = DiagramUtils.getFormattedPolyline(startPolyline, middlePolyline, endPolyline);
-        polyline?.setAttribute('points', polylinePoints);
+        this.setEdgePolylinePoints(polyline, polylinePoints);
         // move edge arrow and label
-        if (halfEdge != null && halfEdge.children.length > 1) {
-            this.moveEdgeArrowAndLabel(halfEdge, startPolyline, middlePolyline, endPolyline, nodeRadius);
+        const edgeInfos: SVGGraphicsElement | null | undefined = halfEdge?.querySelector('.nad-edge-infos');
+        if (edgeInfos != null) {
+            this.moveEdgeArrowAndLabel(edgeInfos, startPolyline, middlePolyline, endPolyline, nodeRadius);
         }
     }
 
-    private moveEdgeArrowAndLabel(
+    private moveHalfEdgePolyline(
         edgeNode: SVGGraphicsElement,
+        side: string,
+        points: Point[],
+        transformerEdge: boolean,
+        nodeRadius: [number, number, number]
+    ) {
+        // get half edge element
+        const halfEdge: SVGGraphicsElement | null = edgeNode.querySelector("[id='" + edgeNode.id + '.' + side + "']");
+        // move edge polyline
+        const polyline: SVGGraphicsElement | null | undefined = halfEdge?.querySelector('polyline');
+        // if transformer edge reduce edge polyline, leaving space for the transformer
+        const polylinePoints = transformerEdge
+            ? [
+                  ...points.slice(0, -1),
+                  DiagramUtils.getPointAtDistance(
+                      points[points.length - 1],
+                      points[points.length - 2],
+                      1.5 * this.svgParameters.getTransformerCircleRadius()
+                  ),
+              ]
+            : points;
+        this.setEdgePolylinePoints(polyline, DiagramUtils.getFormattedPolylinePoints(polylinePoints));
+        // move edge arrow and label, on the first segment
+        const edgeInfos: SVGGraphicsElement | null | undefined = halfEdge?.querySelector('.nad-edge-infos');
+        if (edgeInfos != null) {
+            this.moveEdgeArrowAndLabel(edgeInfos, polylinePoints[0], null, polylinePoints[1], nodeRadius);
+        }
+    }
+
+    private moveEdgeArrowAndLabel(
+        edgeInfos: SVGGraphicsElement,
         startPolyline: Point,
         middlePolyline: Point | null, // if null -> straight line
         endPolyline: Point,
@@ -908,13 +2844,12 @@ export class NetworkAreaDiagramViewer {
                 ? this.svgParameters.getArrowShift() + (nodeRadius[2] - nodeRadius[1])
                 : this.svgParameters.getArrowShift()
         );
-        const arrowElement = edgeNode.lastElementChild as SVGGraphicsElement;
-        arrowElement?.setAttribute('transform', 'translate(' + DiagramUtils.getFormattedPoint(arrowCenter) + ')');
+        edgeInfos.setAttribute('transform', 'translate(' + DiagramUtils.getFormattedPoint(arrowCenter) + ')');
         const arrowAngle = DiagramUtils.getArrowAngle(
             middlePolyline == null ? startPolyline : middlePolyline,
             endPolyline
         );
-        const arrowRotationElement = arrowElement.firstElementChild?.firstElementChild as SVGGraphicsElement;
+        const arrowRotationElement = edgeInfos.firstElementChild?.firstElementChild as SVGGraphicsElement;
         arrowRotationElement.setAttribute('transform', 'rotate(' + DiagramUtils.getFormattedValue(arrowAngle) + ')');
         // move edge label
         const labelData = DiagramUtils.getLabelData(
@@ -922,7 +2857,7 @@ export class NetworkAreaDiagramViewer {
             endPolyline,
             this.svgParameters.getArrowLabelShift()
         );
-        const labelRotationElement = arrowElement.firstElementChild?.lastElementChild as SVGGraphicsElement;
+        const labelRotationElement = edgeInfos.firstElementChild?.lastElementChild as SVGGraphicsElement;
         labelRotationElement.setAttribute('transform', 'rotate(' + DiagramUtils.getFormattedValue(labelData[0]) + ')');
         labelRotationElement.setAttribute('x', DiagramUtils.getFormattedValue(labelData[1]));
         if (labelData[2]) {
@@ -1177,7 +3112,12 @@ export class NetworkAreaDiagramViewer {
                 const edgeNodes = this.getEdgeNodes(edge);
                 const threeWtMoved = edgeNodes[1]?.id == this.draggedElement?.id;
                 const nodeRadius1 = this.getNodeRadius(edge.busNode1 ?? '-1', edge.node1 ?? '-1');
-                const edgeStart = this.getEdgeStart(edge.busNode1, nodeRadius1[1], edgeNodes[0], edgeNodes[1]);
+                const edgeStart = this.getEdgeStart(
+                    edge.busNode1,
+                    nodeRadius1[1],
+                    DiagramUtils.getPosition(edgeNodes[0]),
+                    DiagramUtils.getPosition(edgeNodes[1])
+                );
                 const translation = this.getTranslation(mousePosition);
                 const edgeEnd = threeWtMoved
                     ? new Point(
@@ -1187,10 +3127,11 @@ export class NetworkAreaDiagramViewer {
                     : points[points.length - 1];
                 // move polyline
                 const polylinePoints: string = DiagramUtils.getFormattedPolyline(edgeStart, null, edgeEnd);
-                twtEdge.setAttribute('points', polylinePoints);
+                this.setEdgePolylinePoints(twtEdge, polylinePoints);
                 // move edge arrow and label
-                if (edgeNode.children.length > 1) {
-                    this.moveEdgeArrowAndLabel(edgeNode, edgeStart, null, edgeEnd, nodeRadius1);
+                const edgeInfos: SVGGraphicsElement | null = edgeNode.querySelector('.nad-edge-infos');
+                if (edgeInfos != null) {
+                    this.moveEdgeArrowAndLabel(edgeInfos, edgeStart, null, edgeEnd, nodeRadius1);
                 }
                 // store edge angles, to use them for bus node redrawing
                 this.edgeAngles.set(edgeNode.id + '.1', DiagramUtils.getAngle(edgeStart, edgeEnd));
@@ -1212,63 +3153,108 @@ export class NetworkAreaDiagramViewer {
         }
     }
 
-    private updateNodeMetadataCallCallback(mousePosition: Point, callMoveNodeCallback: boolean) {
+    private updateNodeMetadataCallCallback(
+        mousePosition: Point,
+        callMoveNodeCallback: boolean
+    ): DiagramUtils.NODEMOVE | null {
         // get moved node from metadata
         const node: NodeMetadata | undefined = this.diagramMetadata?.nodes.find(
             (node) => node.svgId == this.draggedElement?.id
         );
-        if (node != null) {
-            const nodeMove = DiagramUtils.getNodeMove(node, mousePosition);
-            // update node position in metadata
-            node.x = nodeMove.xNew;
-            node.y = nodeMove.yNew;
-            // call the node move callback, if defined
-            if (this.onMoveNodeCallback != null && callMoveNodeCallback) {
-                this.onMoveNodeCallback(
-                    node.equipmentId,
-                    node.svgId,
-                    nodeMove.xNew,
-                    nodeMove.yNew,
-                    nodeMove.xOrig,
-                    nodeMove.yOrig
-                );
-            }
+        if (node == null) {
+            return null;
         }
+        const nodeMove = DiagramUtils.getNodeMove(node, mousePosition);
+        // update node position in metadata
+        node.x = nodeMove.xNew;
+        node.y = nodeMove.yNew;
+        // call the node move callback, if defined
+        if (this.onMoveNodeCallback != null && callMoveNodeCallback) {
+            this.onMoveNodeCallback(
+                node.equipmentId,
+                node.svgId,
+                nodeMove.xNew,
+                nodeMove.yNew,
+                nodeMove.xOrig,
+                nodeMove.yOrig
+            );
+        }
+        return nodeMove;
     }
 
-    private updateTextNodeMetadataCallCallback(mousePosition: Point) {
-        if (this.onMoveTextNodeCallback != null) {
-            // get from metadata node connected to moved text node
-            const node: NodeMetadata | undefined = this.diagramMetadata?.nodes.find(
-                (node) => node.svgId == DiagramUtils.getVoltageLevelNodeId(this.draggedElement?.id)
-            );
-            const textNode: TextNodeMetadata | undefined = this.diagramMetadata?.textNodes.find(
-                (textNode) => textNode.svgId == this.draggedElement?.id
+    private updateTextNodeMetadataCallCallback(
+        mousePosition: Point,
+        callMoveTextNodeCallback: boolean
+    ): [DiagramUtils.NODEMOVE, DiagramUtils.NODEMOVE] | null {
+        // get from metadata node connected to moved text node
+        const node: NodeMetadata | undefined = this.diagramMetadata?.nodes.find(
+            (node) => node.svgId == DiagramUtils.getVoltageLevelNodeId(this.draggedElement?.id)
+        );
+        const textNode: TextNodeMetadata | undefined = this.diagramMetadata?.textNodes.find(
+            (textNode) => textNode.svgId == this.draggedElement?.id
+        );
+        if (node == null || textNode == null) {
+            return null;
+        }
+        // get new text node position
+        const textPosition = DiagramUtils.getTextNodeAngleFromCentre(this.draggedElement, mousePosition);
+        const textNodeMoves = DiagramUtils.getTextNodeMoves(textNode, node, textPosition, this.endTextEdge);
+        // update text node position in metadata
+        textNode.shiftX = textNodeMoves[0].xNew;
+        textNode.shiftY = textNodeMoves[0].yNew;
+        textNode.connectionShiftX = textNodeMoves[1].xNew;
+        textNode.connectionShiftY = textNodeMoves[1].yNew;
+        // call the text node move callback, if defined
+        if (this.onMoveTextNodeCallback != null && callMoveTextNodeCallback) {
+            this.onMoveTextNodeCallback(
+                node.equipmentId,
+                node.svgId,
+                textNode.svgId,
+                textNodeMoves[0].xNew,
+                textNodeMoves[0].yNew,
+                textNodeMoves[0].xOrig,
+                textNodeMoves[0].yOrig,
+                textNodeMoves[1].xNew,
+                textNodeMoves[1].yNew,
+                textNodeMoves[1].xOrig,
+                textNodeMoves[1].yOrig
             );
-            if (node != null && textNode != null) {
-                // get new text node position
-                const textPosition = DiagramUtils.getTextNodeAngleFromCentre(this.draggedElement, mousePosition);
-                const textNodeMoves = DiagramUtils.getTextNodeMoves(textNode, node, textPosition, this.endTextEdge);
-                // update text node position in metadata
-                textNode.shiftX = textNodeMoves[0].xNew;
-                textNode.shiftY = textNodeMoves[0].yNew;
-                textNode.connectionShiftX = textNodeMoves[1].xNew;
-                textNode.connectionShiftY = textNodeMoves[1].yNew;
-                // call the node move callback, if defined
-                this.onMoveTextNodeCallback(
-                    node.equipmentId,
-                    node.svgId,
-                    textNode.svgId,
-                    textNodeMoves[0].xNew,
-                    textNodeMoves[0].yNew,
-                    textNodeMoves[0].xOrig,
-                    textNodeMoves[0].yOrig,
-                    textNodeMoves[1].xNew,
-                    textNodeMoves[1].yNew,
-                    textNodeMoves[1].xOrig,
-                    textNodeMoves[1].yOrig
-                );
-            }
+        }
+        return textNodeMoves;
+    }
+
+    private callMoveNodesCallback(nodeMoves: Map<string, DiagramUtils.NODEMOVE>) {
+        // call the nodes move callback, if defined
+        if (this.onMoveNodesCallback != null && nodeMoves.size > 0) {
+            const moves: NodeMove[] = [];
+            this.diagramMetadata?.nodes.forEach((node) => {
+                const nodeMove = nodeMoves.get(node.svgId);
+                if (nodeMove != null) {
+                    moves.push({
+                        equipmentId: node.equipmentId,
+                        nodeId: node.svgId,
+                        x: nodeMove.xNew,
+                        y: nodeMove.yNew,
+                        xOrig: nodeMove.xOrig,
+                        yOrig: nodeMove.yOrig,
+                    });
+                }
+            });
+            this.onMoveNodesCallback(moves);
+        }
+    }
+
+    private callMoveEdgeCallback(edge: EdgeMetadata, bendPointsOrig: PointMetadata[]) {
+        // call the edge move callback, if defined
+        if (this.onMoveEdgeCallback != null) {
+            this.onMoveEdgeCallback(edge.equipmentId, edge.svgId, edge.bendPoints ?? [], bendPointsOrig);
+        }
+    }
+
+    private callSelectEdgeCallback(edge: EdgeMetadata) {
+        // call the select edge callback, if defined
+        if (this.onSelectEdgeCallback != null) {
+            this.onSelectEdgeCallback(edge, DiagramUtils.getStringEdgeType(edge));
         }
     }
 
@@ -1286,7 +3272,7 @@ export class NetworkAreaDiagramViewer {
     }
 
     // Will explore the SVG's <style> tags to find the css rule associated with "cssSelector" and update the
-    // rule using "cssDeclaration".
+    // rule using "cssDeclaration", replacing all its properties.
     // Will create a style tag or/and new css rule if not found in the SVG.
     public updateSvgCssDisplayValue(svg: SVGSVGElement, cssSelector: string, cssDeclaration: CSS_DECLARATION) {
         const innerSvg = svg.querySelector('svg');
@@ -1307,9 +3293,7 @@ export class NetworkAreaDiagramViewer {
                 for (const rule of svgStyle.sheet.cssRules) {
                     const styleRule = rule as CSSStyleRule;
                     if (styleRule.selectorText === cssSelector) {
-                        const key = Object.keys(cssDeclaration)[0];
-                        const value = cssDeclaration[key];
-                        styleRule.style.setProperty(key, value);
+                        styleRule.style.cssText = getCssDeclarationText(cssDeclaration);
                         ruleFound = true;
                         break;
                     }
@@ -1329,36 +3313,69 @@ export class NetworkAreaDiagramViewer {
         }
 
         if (!ruleFound) {
-            const key = Object.keys(cssDeclaration)[0];
-            const value = cssDeclaration[key];
             const styleTag = svgStyles[svgStyles.length - 1]; // Adds the new rule to the last <style> tag in the SVG
-            styleTag.textContent = `${cssSelector} {${key}: ${value};}\n` + styleTag.textContent;
+            styleTag.textContent = `${cssSelector} {${getCssDeclarationText(cssDeclaration)}}\n` + styleTag.textContent;
         }
     }
 
+    // Removes the css rule associated with "cssSelector" from the SVG's <style> tags, if found.
+    private removeSvgCssRule(svg: SVGSVGElement, cssSelector: string) {
+        svg.querySelector('svg')
+            ?.querySelectorAll('style')
+            .forEach((svgStyle) => {
+                const cssRules = svgStyle.sheet?.cssRules;
+                if (!cssRules) {
+                    return;
+                }
+                for (let index = cssRules.length - 1; index >= 0; index--) {
+                    if ((cssRules[index] as CSSStyleRule).selectorText === cssSelector) {
+                        svgStyle.sheet?.deleteRule(index);
+                    }
+                }
+            });
+    }
+
     public initializeDynamicCssRules(maxDisplayedSize: number) {
         this.getDynamicCssRules().forEach((rule) => {
-            rule.thresholdStatus = maxDisplayedSize < rule.threshold ? THRESHOLD_STATUS.BELOW : THRESHOLD_STATUS.ABOVE;
+            updateDynamicCssRuleStatus(rule, maxDisplayedSize);
         });
     }
 
     public injectDynamicCssRules(htmlElementSvg: HTMLElement) {
         const rules = this.getDynamicCssRules()
-            .map((rule) => {
-                const ruleToInject =
-                    rule.thresholdStatus === THRESHOLD_STATUS.BELOW
-                        ? rule.belowThresholdCssDeclaration
-                        : rule.aboveThresholdCssDeclaration;
-                const key = Object.keys(ruleToInject)[0];
-                const value = ruleToInject[key];
-                return `${rule.cssSelector} {${key}: ${value};}`;
-            })
+            .map((rule) => `${rule.cssSelector} {${getCssDeclarationText(getCurrentCssDeclaration(rule))}}`)
             .join('\n');
 
+        this.injectCssRules(htmlElementSvg, rules);
+    }
+
+    // Replaces the dynamic css rules, and applies them for the currently displayed size.
+    public setDynamicCssRules(dynamicCssRules: DYNAMIC_CSS_RULE[]) {
+        const svg = this.svgDraw?.node;
+        if (svg) {
+            const cssSelectors = new Set<string>(dynamicCssRules.map((rule) => rule.cssSelector));
+            this.getDynamicCssRules()
+                .filter((rule) => !cssSelectors.has(rule.cssSelector))
+                .forEach((rule) => this.removeSvgCssRule(svg, rule.cssSelector));
+        }
+        this.dynamicCssRules = dynamicCssRules;
+        this.initializeDynamicCssRules(this.getCurrentlyMaxDisplayedSize());
+        if (svg) {
+            this.getDynamicCssRules().forEach((rule) => {
+                this.updateSvgCssDisplayValue(svg, rule.cssSelector, getCurrentCssDeclaration(rule));
+            });
+        }
+        if (this.flowSpeeds != null) {
+            this.updateFlowAnimationPause();
+        }
+    }
+
+    // Adds the css rules at the beginning of the first <style> tag of the SVG, creating it if needed.
+    private injectCssRules(htmlElementSvg: HTMLElement, rules: string) {
         let styleTag = htmlElementSvg.querySelector('style');
         if (!styleTag) {
             htmlElementSvg.appendChild(document.createElement('style'));
-            console.debug('[injectDynamicCssRules] Style tag missing from SVG file. It has been created.');
+            console.debug('[injectCssRules] Style tag missing from SVG file. It has been created.');
             styleTag = htmlElementSvg.querySelector('style');
         }
         if (styleTag && 'textContent' in styleTag) {
@@ -1375,22 +3392,16 @@ export class NetworkAreaDiagramViewer {
 
     public checkAndUpdateLevelOfDetail(svg: SVGSVGElement) {
         const maxDisplayedSize = this.getCurrentlyMaxDisplayedSize();
-        // We will check each dynamic css rule to see if we crossed a zoom threshold. If this is the case, we
-        // update the rule's threshold status and trigger the CSS change in the SVG.
+        // We will check each dynamic css rule to see if we crossed a zoom threshold or changed of zoom band. If this
+        // is the case, we update the rule's status and trigger the CSS change in the SVG.
         this.getDynamicCssRules().forEach((rule) => {
-            if (rule.thresholdStatus === THRESHOLD_STATUS.ABOVE && maxDisplayedSize < rule.threshold) {
-                console.debug(
-                    'CSS Rule ' + rule.cssSelector + ' below threshold ' + maxDisplayedSize + ' < ' + rule.threshold
-                );
-                rule.thresholdStatus = THRESHOLD_STATUS.BELOW;
-                this.updateSvgCssDisplayValue(svg, rule.cssSelector, rule.belowThresholdCssDeclaration);
-            } else if (rule.thresholdStatus === THRESHOLD_STATUS.BELOW && maxDisplayedSize >= rule.threshold) {
-                console.debug(
-                    'CSS Rule ' + rule.cssSelector + ' above threshold ' + maxDisplayedSize + ' >= ' + rule.threshold
-                );
-                rule.thresholdStatus = THRESHOLD_STATUS.ABOVE;
-                this.updateSvgCssDisplayValue(svg, rule.cssSelector, rule.aboveThresholdCssDeclaration);
+            if (updateDynamicCssRuleStatus(rule, maxDisplayedSize)) {
+                console.debug('CSS Rule ' + rule.cssSelector + ' updated for displayed size ' + maxDisplayedSize);
+                this.updateSvgCssDisplayValue(svg, rule.cssSelector, getCurrentCssDeclaration(rule));
             }
         });
+        if (this.flowSpeeds != null) {
+            this.updateFlowAnimationPause();
+        }
     }
 }
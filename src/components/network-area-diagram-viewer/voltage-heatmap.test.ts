@@ -0,0 +1,33 @@
+/**
+ * Copyright (c) 2024, RTE (http://www.rte-france.com)
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ * SPDX-License-Identifier: MPL-2.0
+ */
+
+import { drawHeatmapLegend, getHeatmapColor, HEATMAP_COLORS_DEFAULT } from './voltage-heatmap';
+
+test('getHeatmapColor', () => {
+    const colors: [string, string, string] = ['#0000ff', '#ffffff', '#ff0000'];
+    expect(getHeatmapColor(1, 0.9, 1.1, colors)).toBe('rgb(255, 255, 255)');
+    expect(getHeatmapColor(0.925, 0.9, 1.1, colors)).toBe('rgb(64, 64, 255)');
+    expect(getHeatmapColor(1.1, 0.9, 1.1, colors)).toBe('rgb(255, 0, 0)');
+    // out of bounds voltages have the bound colors
+    expect(getHeatmapColor(0.5, 0.9, 1.1, colors)).toBe('rgb(0, 0, 255)');
+    expect(getHeatmapColor(1.5, 0.9, 1.1, colors)).toBe('rgb(255, 0, 0)');
+    expect(getHeatmapColor(1.5, 1, 1, colors)).toBe('rgb(255, 255, 255)');
+});
+
+test('drawHeatmapLegend', () => {
+    const container: HTMLDivElement = document.createElement('div');
+    const legend = drawHeatmapLegend(container, 0.9, 1.1, HEATMAP_COLORS_DEFAULT);
+    expect(container.querySelectorAll('stop').length).toBe(3);
+    expect(Array.from(container.querySelectorAll('text')).map((text) => text.textContent)).toEqual([
+        '0.90 pu',
+        '1.00 pu',
+        '1.10 pu',
+    ]);
+    legend.remove();
+    expect(container.innerHTML).toBe('');
+});
@@ -0,0 +1,91 @@
+/**
+ * Copyright (c) 2024, RTE (http://www.rte-france.com)
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ * SPDX-License-Identifier: MPL-2.0
+ */
+
+import { SVG, Svg } from '@svgdotjs/svg.js';
+
+// per-unit voltage of a bus, identified by the equipment id of its bus node
+export interface BusVoltage {
+    equipmentId: string;
+    v: number;
+}
+
+export type VoltageHeatmapOptions = {
+    min?: number; // per-unit voltage of the low color, and below
+    max?: number; // per-unit voltage of the high color, and above
+    colors?: [string, string, string]; // low, middle and high colors, as #rrggbb
+    tintVoltageLevels?: boolean; // tint the voltage level circles with the mean voltage of their buses
+    legendContainer?: HTMLElement;
+};
+
+export const HEATMAP_BUS_CLASS = 'nad-heatmap-bus';
+export const HEATMAP_HALO_CLASS = 'nad-heatmap-halo';
+export const HEATMAP_COLOR_PROPERTY = '--nad-heatmap-color';
+
+export const HEATMAP_MIN_DEFAULT = 0.9;
+export const HEATMAP_MAX_DEFAULT = 1.1;
+// diverging blue to red scale, low voltages being blue
+export const HEATMAP_COLORS_DEFAULT: [string, string, string] = ['#2166ac', '#f7f7f7', '#b2182b'];
+
+const LEGEND_WIDTH = 200;
+const LEGEND_HEIGHT = 40;
+const LEGEND_BAR_HEIGHT = 16;
+
+// the rule is more specific than the bus node rule of the diagram stylesheet, in order to override the voltage colors
+export const HEATMAP_CSS_RULES =
+    '.nad-vl-nodes .nad-busnode.' +
+    HEATMAP_BUS_CLASS +
+    ' {fill: var(' +
+    HEATMAP_COLOR_PROPERTY +
+    ');}\n' +
+    '.' +
+    HEATMAP_HALO_CLASS +
+    ' {fill: var(' +
+    HEATMAP_COLOR_PROPERTY +
+    '); fill-opacity: 0.5; pointer-events: none;}\n';
+
+function parseHexColor(color: string): [number, number, number] {
+    return [1, 3, 5].map((index) => parseInt(color.substring(index, index + 2), 16)) as [number, number, number];
+}
+
+// get the color of a voltage on the diverging scale, the middle color being at the middle of the bounds
+export function getHeatmapColor(v: number, min: number, max: number, colors: [string, string, string]): string {
+    const middle = (min + max) / 2;
+    const ratio = max > min ? Math.min(Math.max((v - middle) / ((max - min) / 2), -1), 1) : 0;
+    const middleColor = parseHexColor(colors[1]);
+    const boundColor = parseHexColor(ratio < 0 ? colors[0] : colors[2]);
+    const rgb = middleColor.map((component, index) =>
+        Math.round(component + (boundColor[index] - component) * Math.abs(ratio))
+    );
+    return 'rgb(' + rgb.join(', ') + ')';
+}
+
+// draw the legend of the scale: a gradient bar, with the bounds and the middle voltage below
+export function drawHeatmapLegend(
+    container: HTMLElement,
+    min: number,
+    max: number,
+    colors: [string, string, string]
+): Svg {
+    const svgDraw = SVG().addTo(container).size(LEGEND_WIDTH, LEGEND_HEIGHT);
+    const gradient = svgDraw.gradient('linear', (add) => {
+        add.stop(0, colors[0]);
+        add.stop(0.5, colors[1]);
+        add.stop(1, colors[2]);
+    });
+    svgDraw.rect(LEGEND_WIDTH, LEGEND_BAR_HEIGHT).fill(gradient);
+    [
+        [min, 0, 'start'],
+        [(min + max) / 2, LEGEND_WIDTH / 2, 'middle'],
+        [max, LEGEND_WIDTH, 'end'],
+    ].forEach(([v, x, anchor]) => {
+        svgDraw
+            .plain(Number(v).toFixed(2) + ' pu')
+            .attr({ x: x, y: LEGEND_HEIGHT - 4, 'text-anchor': anchor, 'font-size': 12 });
+    });
+    return svgDraw;
+}
@@ -15,6 +15,13 @@ import ForkLineLayer from './layers/fork-line-layer';
 import { getDistance } from 'geolib';
 import { SUBSTATION_RADIUS, SUBSTATION_RADIUS_MAX_PIXEL, SUBSTATION_RADIUS_MIN_PIXEL } from './constants';
 import { INVALID_FLOW_OPACITY } from '../../../utils/colors';
+import {
+    ArrowSpeed,
+    getArrowSpeedOfSide,
+    getLineLoadingZoneOfSide,
+    LINE_LOADING_ZONE_COLORS,
+    LineLoadingZone,
+} from '../../../utils/line-flow';
 
 const DISTANCE_BETWEEN_ARROWS = 10000.0;
 //Constants for Feeders mode
@@ -49,28 +56,7 @@ function getArrowDirection(p) {
     }
 }
 
-export const LineLoadingZone = {
-    UNKNOWN: 0,
-    SAFE: 1,
-    WARNING: 2,
-    OVERLOAD: 3,
-};
-
-export function getLineLoadingZoneOfSide(limit, intensity, lineFlowAlertThreshold) {
-    if (limit === undefined || intensity === undefined || intensity === 0) {
-        return LineLoadingZone.UNKNOWN;
-    } else {
-        let threshold = (lineFlowAlertThreshold * limit) / 100;
-        const absoluteIntensity = Math.abs(intensity);
-        if (absoluteIntensity < threshold) {
-            return LineLoadingZone.SAFE;
-        } else if (absoluteIntensity >= threshold && absoluteIntensity < limit) {
-            return LineLoadingZone.WARNING;
-        } else {
-            return LineLoadingZone.OVERLOAD;
-        }
-    }
-}
+export { LineLoadingZone, getLineLoadingZoneOfSide };
 
 export function getLineLoadingZone(line, lineFlowAlertThreshold) {
     const zone1 = getLineLoadingZoneOfSide(line.currentLimits1?.permanentLimit, line.i1, lineFlowAlertThreshold);
@@ -79,17 +65,11 @@ export function getLineLoadingZone(line, lineFlowAlertThreshold) {
 }
 
 function getLineLoadingZoneColor(zone) {
-    if (zone === LineLoadingZone.UNKNOWN) {
-        return [128, 128, 128]; // grey
-    } else if (zone === LineLoadingZone.SAFE) {
-        return [107, 178, 40]; // green
-    } else if (zone === LineLoadingZone.WARNING) {
-        return [210, 179, 63]; // yellow
-    } else if (zone === LineLoadingZone.OVERLOAD) {
-        return [255, 0, 0]; // red
-    } else {
+    const color = LINE_LOADING_ZONE_COLORS[zone];
+    if (color === undefined) {
         throw new Error('Unsupported line loading zone: ' + zone);
     }
+    return color;
 }
 
 function getLineColor(line, nominalVoltageColor, props, lineConnection) {
@@ -116,30 +96,7 @@ function getLineIcon(lineStatus) {
     };
 }
 
-export const ArrowSpeed = {
-    STOPPED: 0,
-    SLOW: 1,
-    MEDIUM: 2,
-    FAST: 3,
-    CRAZY: 4,
-};
-
-function getArrowSpeedOfSide(limit, intensity) {
-    if (limit === undefined || intensity === undefined || intensity === 0) {
-        return ArrowSpeed.STOPPED;
-    } else {
-        if (intensity > 0 && intensity < limit / 3) {
-            return ArrowSpeed.SLOW;
-        } else if (intensity >= limit / 3 && intensity < (limit * 2) / 3) {
-            return ArrowSpeed.MEDIUM;
-        } else if (intensity >= (limit * 2) / 3 && intensity < limit) {
-            return ArrowSpeed.FAST;
-        } else {
-            // > limit
-            return ArrowSpeed.CRAZY;
-        }
-    }
-}
+export { ArrowSpeed };
 
 function getArrowSpeed(line) {
     const speed1 = getArrowSpeedOfSide(line.currentLimits1?.permanentLimit, line.i1);
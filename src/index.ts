@@ -8,13 +8,59 @@
 export { NetworkAreaDiagramViewer } from './components/network-area-diagram-viewer/network-area-diagram-viewer';
 export type {
     OnMoveNodeCallbackType,
+    OnMoveNodesCallbackType,
+    OnMoveEdgeCallbackType,
+    NodeMove,
+    FocusOnEquipmentOptions,
+    ForceLayoutOptions,
+    DeclutterOptions,
     OnMoveTextNodeCallbackType,
+    OnContextMenuCallbackType,
     OnSelectNodeCallbackType,
+    OnSelectEdgeCallbackType,
+    DiagramSelection,
     OnToggleNadHoverCallbackType,
+    NetworkAreaDiagramViewerOptions,
 } from './components/network-area-diagram-viewer/network-area-diagram-viewer';
-export type { DiagramMetadata } from './components/network-area-diagram-viewer/diagram-metadata';
+export { ContextMenuKind } from './components/network-area-diagram-viewer/diagram-utils';
+export type {
+    BusNodeMetadata,
+    DiagramMetadata,
+    EdgeMetadata,
+    PointMetadata,
+} from './components/network-area-diagram-viewer/diagram-metadata';
+export { UnsupportedLayoutVersionError } from './components/network-area-diagram-viewer/diagram-layout';
+export type {
+    DiagramLayout,
+    DiagramLayoutReport,
+    NodeLayout,
+    TextNodeLayout,
+} from './components/network-area-diagram-viewer/diagram-layout';
+export type { BusValues, DiagramValues, EdgeValues } from './components/network-area-diagram-viewer/diagram-values';
+export type { ExportImageOptions } from './components/network-area-diagram-viewer/diagram-export';
+export type {
+    DiagramPlayback,
+    OnPlaybackTimestampCallbackType,
+    TimedDiagramValues,
+} from './components/network-area-diagram-viewer/diagram-playback';
+export type { BusVoltage, VoltageHeatmapOptions } from './components/network-area-diagram-viewer/voltage-heatmap';
+export { LoadingZone } from './components/network-area-diagram-viewer/branch-loading';
+export type { BranchLoading } from './components/network-area-diagram-viewer/branch-loading';
+export {
+    DiagnosticKind,
+    DiagnosticSeverity,
+    DiagramValidationError,
+    validateDiagram,
+} from './components/network-area-diagram-viewer/diagram-validation';
+export type { Diagnostic } from './components/network-area-diagram-viewer/diagram-validation';
 export { THRESHOLD_STATUS } from './components/network-area-diagram-viewer/dynamic-css-utils';
-export type { CSS_DECLARATION, CSS_RULE } from './components/network-area-diagram-viewer/dynamic-css-utils';
+export type {
+    BANDED_CSS_RULE,
+    CSS_BAND,
+    CSS_DECLARATION,
+    CSS_RULE,
+    DYNAMIC_CSS_RULE,
+} from './components/network-area-diagram-viewer/dynamic-css-utils';
 export { SingleLineDiagramViewer } from './components/single-line-diagram-viewer/single-line-diagram-viewer';
 export type {
     OnToggleSldHoverCallbackType,
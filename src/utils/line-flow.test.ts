@@ -0,0 +1,28 @@
+/**
+ * Copyright (c) 2024, RTE (http://www.rte-france.com)
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ * SPDX-License-Identifier: MPL-2.0
+ */
+
+import { ArrowSpeed, getArrowSpeedOfSide, getLineLoadingZoneOfSide, LineLoadingZone } from './line-flow';
+
+test('getLineLoadingZoneOfSide', () => {
+    expect(getLineLoadingZoneOfSide(undefined, 100, 90)).toBe(LineLoadingZone.UNKNOWN);
+    expect(getLineLoadingZoneOfSide(1000, undefined, 90)).toBe(LineLoadingZone.UNKNOWN);
+    expect(getLineLoadingZoneOfSide(1000, 0, 90)).toBe(LineLoadingZone.UNKNOWN);
+    expect(getLineLoadingZoneOfSide(1000, 500, 90)).toBe(LineLoadingZone.SAFE);
+    expect(getLineLoadingZoneOfSide(1000, -950, 90)).toBe(LineLoadingZone.WARNING);
+    expect(getLineLoadingZoneOfSide(1000, 950, 100)).toBe(LineLoadingZone.SAFE);
+    expect(getLineLoadingZoneOfSide(1000, 1000, 90)).toBe(LineLoadingZone.OVERLOAD);
+});
+
+test('getArrowSpeedOfSide', () => {
+    expect(getArrowSpeedOfSide(undefined, 100)).toBe(ArrowSpeed.STOPPED);
+    expect(getArrowSpeedOfSide(900, 0)).toBe(ArrowSpeed.STOPPED);
+    expect(getArrowSpeedOfSide(900, 100)).toBe(ArrowSpeed.SLOW);
+    expect(getArrowSpeedOfSide(900, 400)).toBe(ArrowSpeed.MEDIUM);
+    expect(getArrowSpeedOfSide(900, 700)).toBe(ArrowSpeed.FAST);
+    expect(getArrowSpeedOfSide(900, 900)).toBe(ArrowSpeed.CRAZY);
+});
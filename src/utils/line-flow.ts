@@ -0,0 +1,69 @@
+/**
+ * Copyright (c) 2024, RTE (http://www.rte-france.com)
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ * SPDX-License-Identifier: MPL-2.0
+ */
+
+// loading zones of the lines of the network map and of the branches of the network area diagram
+export enum LineLoadingZone {
+    UNKNOWN = 0,
+    SAFE = 1,
+    WARNING = 2,
+    OVERLOAD = 3,
+}
+
+export const LINE_LOADING_ZONE_COLORS: Record<LineLoadingZone, [number, number, number]> = {
+    [LineLoadingZone.UNKNOWN]: [128, 128, 128], // grey
+    [LineLoadingZone.SAFE]: [107, 178, 40], // green
+    [LineLoadingZone.WARNING]: [210, 179, 63], // yellow
+    [LineLoadingZone.OVERLOAD]: [255, 0, 0], // red
+};
+
+// get the loading zone of a side, the warning zone starting at the alert threshold percentage of the limit
+export function getLineLoadingZoneOfSide(
+    limit: number | undefined,
+    intensity: number | undefined,
+    lineFlowAlertThreshold: number
+): LineLoadingZone {
+    if (limit === undefined || intensity === undefined || intensity === 0) {
+        return LineLoadingZone.UNKNOWN;
+    }
+    const threshold = (lineFlowAlertThreshold * limit) / 100;
+    const absoluteIntensity = Math.abs(intensity);
+    if (absoluteIntensity < threshold) {
+        return LineLoadingZone.SAFE;
+    } else if (absoluteIntensity < limit) {
+        return LineLoadingZone.WARNING;
+    } else {
+        return LineLoadingZone.OVERLOAD;
+    }
+}
+
+// speed of the flow animations of the network map and of the network area diagram
+export enum ArrowSpeed {
+    STOPPED = 0,
+    SLOW = 1,
+    MEDIUM = 2,
+    FAST = 3,
+    CRAZY = 4,
+}
+
+// get the arrow speed of a side, from the ratio of the current to the permanent limit
+export function getArrowSpeedOfSide(limit: number | undefined, intensity: number | undefined): ArrowSpeed {
+    if (limit === undefined || intensity === undefined || intensity === 0) {
+        return ArrowSpeed.STOPPED;
+    } else {
+        if (intensity > 0 && intensity < limit / 3) {
+            return ArrowSpeed.SLOW;
+        } else if (intensity >= limit / 3 && intensity < (limit * 2) / 3) {
+            return ArrowSpeed.MEDIUM;
+        } else if (intensity >= (limit * 2) / 3 && intensity < limit) {
+            return ArrowSpeed.FAST;
+        } else {
+            // > limit
+            return ArrowSpeed.CRAZY;
+        }
+    }
+}